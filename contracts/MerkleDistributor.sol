@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.4;
+import './interface/IMerkleDistributor.sol';
+import '@openzeppelin/contracts/access/Ownable.sol';
+import '@openzeppelin/contracts/token/ERC20/IERC20.sol';
+import '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import '@openzeppelin/contracts/utils/cryptography/MerkleProof.sol';
+
+/// @title Elyfi bonus campaign distributor
+/// @notice Pays the amounts committed in a merkle tree of (index, account, amount) leaves.
+/// The tree is built off-chain from the time-weighted principal of a staking pool. After the
+/// endTimestamp the owner retrieves the unclaimed tokens.
+/// @author Elysia
+contract MerkleDistributor is IMerkleDistributor, Ownable {
+  address public immutable override token;
+  bytes32 public immutable override merkleRoot;
+  uint256 public immutable override endTimestamp;
+
+  /// @dev A packed array of booleans, one bit per leaf index
+  mapping(uint256 => uint256) private claimedBitMap;
+
+  constructor(
+    address token_,
+    bytes32 merkleRoot_,
+    uint256 endTimestamp_
+  ) {
+    token = token_;
+    merkleRoot = merkleRoot_;
+    endTimestamp = endTimestamp_;
+  }
+
+  /// @notice Returns whether the leaf at the index has been claimed
+  /// @param index The leaf index
+  function isClaimed(uint256 index) public view override returns (bool) {
+    uint256 word = claimedBitMap[index / 256];
+    uint256 mask = 1 << (index % 256);
+    return word & mask == mask;
+  }
+
+  /// @notice Transfer the amount of the leaf to the account. Anyone can claim on behalf of the account.
+  /// @param index The leaf index
+  /// @param account The account of the leaf
+  /// @param amount The amount of the leaf
+  /// @param merkleProof The sibling hashes from the leaf to the root
+  function claim(
+    uint256 index,
+    address account,
+    uint256 amount,
+    bytes32[] calldata merkleProof
+  ) external override {
+    if (block.timestamp >= endTimestamp) revert ClaimEnded();
+    if (isClaimed(index)) revert AlreadyClaimed();
+
+    bytes32 leaf = keccak256(abi.encodePacked(index, account, amount));
+    if (!MerkleProof.verify(merkleProof, merkleRoot, leaf)) revert InvalidProof();
+
+    claimedBitMap[index / 256] |= 1 << (index % 256);
+    SafeERC20.safeTransfer(IERC20(token), account, amount);
+
+    emit Claimed(index, account, amount);
+  }
+
+  /// @notice Transfer the unclaimed tokens to the owner after the campaign ended
+  function retrieveResidue() external onlyOwner {
+    if (block.timestamp < endTimestamp) revert ClaimNotEnded();
+    uint256 residueAmount = IERC20(token).balanceOf(address(this));
+
+    SafeERC20.safeTransfer(IERC20(token), msg.sender, residueAmount);
+    emit RetrieveResidue(msg.sender, residueAmount);
+  }
+}
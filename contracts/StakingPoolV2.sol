@@ -34,12 +34,20 @@ contract StakingPoolV2 is IStakingPoolV2, StakedElyfiToken, Manageable {
     mapping(address => uint256) userPrincipal;
     bool isOpened;
     bool isFinished;
+    // Sum of userReward, the rewards settled to users and not claimed yet
+    uint256 totalUserReward;
+    // Sum of userPrincipal * userIndex, to get the rewards accrued since the users were settled
+    uint256 totalPrincipalIndex;
+    // Users with principal
+    uint256 stakerCount;
   }
 
   bool internal emergencyStop = false;
   IERC20 public stakingAsset;
   IERC20 public rewardAsset;
   PoolData internal _poolData;
+  // Pools the owner allows users to migrate to
+  mapping(address => bool) internal _successors;
 
   /***************** View functions ******************/
 
@@ -54,6 +62,11 @@ contract StakingPoolV2 is IStakingPoolV2, StakedElyfiToken, Manageable {
     return _poolData.getUserReward(user);
   }
 
+  /// @notice Returns the rewards accrued by all users and not claimed yet, rounded up
+  function getOwedReward() external view override returns (uint256) {
+    return _poolData.getOwedReward();
+  }
+
   /// @notice Returns the state and data of the round
   /// @return rewardPerSecond The total reward accrued per second in the round
   /// @return rewardIndex The reward index of the round
@@ -99,25 +112,27 @@ contract StakingPoolV2 is IStakingPoolV2, StakedElyfiToken, Manageable {
     return (_poolData.userIndex[user], _poolData.userReward[user], _poolData.userPrincipal[user]);
   }
 
+  /// @notice Returns true if users can migrate to the pool
+  /// @param pool The pool address
+  function isSuccessor(address pool) external view override returns (bool) {
+    return _successors[pool];
+  }
+
   /***************** External functions ******************/
 
   /// @notice Stake the amount of staking asset to pool contract and update data.
   /// @param amount Amount to stake.
   function stake(uint256 amount) external override stakingInitiated {
-    if (_poolData.isOpened == false) revert Closed();
-    if (amount == 0) revert InvalidAmount();
-    _poolData.updateStakingPool(msg.sender);
-    _depositFor(msg.sender, amount);
-
-    _poolData.userPrincipal[msg.sender] += amount;
-    _poolData.totalPrincipal += amount;
+    _stake(msg.sender, amount);
+  }
 
-    emit Stake(
-      msg.sender,
-      amount,
-      _poolData.userIndex[msg.sender],
-      _poolData.userPrincipal[msg.sender]
-    );
+  /// @notice Stake the amount of staking asset of msg.sender for the user. Previous pools call it to
+  /// migrate the principal of their users. Anyone else may call it too: it is a gift paid by
+  /// msg.sender, the user accrues the reward of the principal and is the only one who can withdraw it.
+  /// @param user The user the principal is staked for
+  /// @param amount Amount to stake.
+  function stakeFor(address user, uint256 amount) external override stakingInitiated {
+    _stake(user, amount);
   }
 
   /// @notice Withdraw the amount of principal from the pool contract and update data
@@ -131,10 +146,56 @@ contract StakingPoolV2 is IStakingPoolV2, StakedElyfiToken, Manageable {
     _claim(msg.sender);
   }
 
-  // TODO Implement `migrate` function to send an asset to the next staking contract
+  /// @notice Transfer accrued reward to msg.sender, stake the amount of principal into the next pool
+  /// for msg.sender and withdraw the rest of the principal to msg.sender.
+  /// @param amount Amount to migrate, type(uint256).max migrates the whole principal
+  /// @param nextPool The pool to migrate to, approved by the owner
+  function migrate(uint256 amount, address nextPool) external override stakingInitiated {
+    if (emergencyStop == true) revert Emergency();
+    if (_successors[nextPool] == false) revert NotSuccessor();
+    uint256 principal = _poolData.userPrincipal[msg.sender];
+    if (principal == 0) revert ZeroPrincipal();
+
+    uint256 amountToMigrate = amount == type(uint256).max ? principal : amount;
+    if (amountToMigrate == 0) revert InvalidAmount();
+    if (principal < amountToMigrate) revert NotEnoughPrincipal(principal);
+
+    _poolData.updateStakingPool(msg.sender);
+
+    uint256 reward = _poolData.userReward[msg.sender];
+    _poolData.totalUserReward -= reward;
+    _poolData.userReward[msg.sender] = 0;
+
+    _poolData.userPrincipal[msg.sender] = 0;
+    _poolData.totalPrincipal -= principal;
+    _poolData.totalPrincipalIndex -= principal * _poolData.userIndex[msg.sender];
+    _poolData.stakerCount -= 1;
+
+    if (reward != 0) SafeERC20.safeTransfer(rewardAsset, msg.sender, reward);
+    _withdrawTo(msg.sender, principal - amountToMigrate);
+    _burn(msg.sender, amountToMigrate);
+    SafeERC20.safeIncreaseAllowance(stakingAsset, nextPool, amountToMigrate);
+    IStakingPoolV2(nextPool).stakeFor(msg.sender, amountToMigrate);
+
+    emit Migrate(msg.sender, nextPool, amountToMigrate, principal - amountToMigrate, reward);
+  }
 
   /***************** Internal Functions ******************/
 
+  function _stake(address user, uint256 amount) internal {
+    if (_poolData.isOpened == false) revert Closed();
+    if (amount == 0) revert InvalidAmount();
+    _poolData.updateStakingPool(user);
+    _depositFor(user, amount);
+
+    if (_poolData.userPrincipal[user] == 0) _poolData.stakerCount += 1;
+    _poolData.userPrincipal[user] += amount;
+    _poolData.totalPrincipal += amount;
+    _poolData.totalPrincipalIndex += amount * _poolData.userIndex[user];
+
+    emit Stake(user, amount, _poolData.userIndex[user], _poolData.userPrincipal[user]);
+  }
+
   function _withdraw(uint256 amount) internal {
     uint256 amountToWithdraw = amount;
 
@@ -149,6 +210,10 @@ contract StakingPoolV2 is IStakingPoolV2, StakedElyfiToken, Manageable {
 
     _poolData.userPrincipal[msg.sender] -= amountToWithdraw;
     _poolData.totalPrincipal -= amountToWithdraw;
+    _poolData.totalPrincipalIndex -= amountToWithdraw * _poolData.userIndex[msg.sender];
+    if (amountToWithdraw != 0 && _poolData.userPrincipal[msg.sender] == 0) {
+      _poolData.stakerCount -= 1;
+    }
 
     _withdrawTo(msg.sender, amountToWithdraw);
 
@@ -166,8 +231,13 @@ contract StakingPoolV2 is IStakingPoolV2, StakedElyfiToken, Manageable {
 
     if (reward == 0) revert ZeroReward();
 
+    uint256 rewardIndex = _poolData.getRewardIndex();
+    _poolData.totalUserReward -= _poolData.userReward[user];
+    _poolData.totalPrincipalIndex +=
+      _poolData.userPrincipal[user] *
+      (rewardIndex - _poolData.userIndex[user]);
     _poolData.userReward[user] = 0;
-    _poolData.userIndex[user] = _poolData.getRewardIndex();
+    _poolData.userIndex[user] = rewardIndex;
 
     SafeERC20.safeTransfer(rewardAsset, user, reward);
 
@@ -220,19 +290,31 @@ contract StakingPoolV2 is IStakingPoolV2, StakedElyfiToken, Manageable {
     emit ClosePool(msg.sender, true);
   }
 
+  /// @notice Transfer the reward asset the pool does not owe to the owner.
+  /// The principal and the rewards accrued by users but not claimed yet stay in the pool.
   function retrieveResidue() external onlyOwner {
-    uint256 residueAmount;
-
+    uint256 lockedAmount = _poolData.getOwedReward();
     if (stakingAsset == rewardAsset) {
-      residueAmount = rewardAsset.balanceOf(address(this)) - _poolData.totalPrincipal;
-    } else {
-      residueAmount = rewardAsset.balanceOf(address(this));
+      lockedAmount += _poolData.totalPrincipal;
     }
 
+    uint256 balance = rewardAsset.balanceOf(address(this));
+    uint256 residueAmount = balance > lockedAmount ? balance - lockedAmount : 0;
+
     SafeERC20.safeTransfer(rewardAsset, msg.sender, residueAmount);
     emit RetrieveResidue(msg.sender, residueAmount);
   }
 
+  /// @notice Allow or disallow users to migrate to the pool. The pool must stake the same asset.
+  /// @param pool The next pool
+  /// @param approved True to allow the migration
+  function setSuccessor(address pool, bool approved) external onlyOwner {
+    if (approved && (pool == address(this) || StakingPoolV2(pool).stakingAsset() != stakingAsset))
+      revert InvalidSuccessor();
+    _successors[pool] = approved;
+    emit SetSuccessor(msg.sender, pool, approved);
+  }
+
   function setEmergency(bool stop) external onlyOwner {
     emergencyStop = stop;
     emit SetEmergency(msg.sender, stop);
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.4;
+
+interface IMerkleDistributor {
+  error AlreadyClaimed();
+  error InvalidProof();
+  error ClaimEnded();
+  error ClaimNotEnded();
+
+  event Claimed(uint256 index, address indexed account, uint256 amount);
+
+  event RetrieveResidue(address admin, uint256 residueAmount);
+
+  function token() external view returns (address);
+
+  function merkleRoot() external view returns (bytes32);
+
+  function endTimestamp() external view returns (uint256);
+
+  function isClaimed(uint256 index) external view returns (bool);
+
+  function claim(
+    uint256 index,
+    address account,
+    uint256 amount,
+    bytes32[] calldata merkleProof
+  ) external;
+}
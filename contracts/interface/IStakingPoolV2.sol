@@ -10,6 +10,8 @@ interface IStakingPoolV2 {
   error Finished();
   error Closed();
   error Emergency();
+  error NotSuccessor();
+  error InvalidSuccessor();
 
   event Stake(
     address indexed user,
@@ -45,8 +47,22 @@ interface IStakingPoolV2 {
 
   event SetEmergency(address admin, bool emergency);
 
+  event Migrate(
+    address indexed user,
+    address indexed nextPool,
+    uint256 amount,
+    uint256 withdrawAmount,
+    uint256 reward
+  );
+
+  event SetSuccessor(address admin, address indexed pool, bool approved);
+
   function stake(uint256 amount) external;
 
+  function stakeFor(address user, uint256 amount) external;
+
+  function migrate(uint256 amount, address nextPool) external;
+
   function claim() external;
 
   function withdraw(uint256 amount) external;
@@ -55,6 +71,10 @@ interface IStakingPoolV2 {
 
   function getUserReward(address user) external view returns (uint256);
 
+  function getOwedReward() external view returns (uint256);
+
+  function isSuccessor(address pool) external view returns (bool);
+
   function getPoolData()
     external
     view
@@ -42,13 +42,30 @@ library StakingPoolLogicV2 {
     return result;
   }
 
+  /// @notice Returns the rewards accrued by all users and not claimed yet.
+  /// getUserReward rounds half up once per user, so each staker adds 1 wei to stay above the sum.
+  function getOwedReward(StakingPoolV2.PoolData storage poolData) internal view returns (uint256) {
+    if (poolData.totalPrincipal == 0) return poolData.totalUserReward;
+
+    // rewards accrued since each user was settled, scaled by WAD
+    uint256 accrued = getRewardIndex(poolData) * poolData.totalPrincipal - poolData.totalPrincipalIndex;
+    uint256 accruedReward = (accrued + WadMath.WAD - 1) / WadMath.WAD;
+    return poolData.totalUserReward + accruedReward + poolData.stakerCount;
+  }
+
   /// @notice Returns the user's total unclaimed reward.
   function updateStakingPool(
     StakingPoolV2.PoolData storage poolData,
     address user
   ) internal {
-    poolData.userReward[user] = getUserReward(poolData, user);
-    poolData.rewardIndex = poolData.userIndex[user] = getRewardIndex(poolData);
+    uint256 userReward = getUserReward(poolData, user);
+    uint256 rewardIndex = getRewardIndex(poolData);
+    poolData.totalUserReward = poolData.totalUserReward + userReward - poolData.userReward[user];
+    poolData.totalPrincipalIndex +=
+      poolData.userPrincipal[user] *
+      (rewardIndex - poolData.userIndex[user]);
+    poolData.userReward[user] = userReward;
+    poolData.rewardIndex = poolData.userIndex[user] = rewardIndex;
     poolData.lastUpdateTimestamp = block.timestamp < poolData.endTimestamp
       ? block.timestamp
       : poolData.endTimestamp;
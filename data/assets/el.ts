@@ -0,0 +1,12 @@
+import { AssetData } from '../types/AssetData';
+import { Network } from '../types/Network';
+
+const el: AssetData = {
+  [Network.mainnet]: {
+    address: '0x2781246fe707bB15CeE3e5ea354e2154a2877B16',
+    decimals: 18,
+    symbol: 'EL',
+  },
+};
+
+export default el;
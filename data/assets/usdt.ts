@@ -0,0 +1,12 @@
+import { AssetData } from '../types/AssetData';
+import { Network } from '../types/Network';
+
+const usdt: AssetData = {
+  [Network.mainnet]: {
+    address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+    decimals: 6,
+    symbol: 'USDT',
+  },
+};
+
+export default usdt;
@@ -0,0 +1,12 @@
+import { AssetData } from '../types/AssetData';
+import { Network } from '../types/Network';
+
+const weth: AssetData = {
+  [Network.mainnet]: {
+    address: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+    decimals: 18,
+    symbol: 'WETH',
+  },
+};
+
+export default weth;
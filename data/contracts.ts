@@ -0,0 +1,13 @@
+import { ContractData } from './types/ContractData';
+import { Network } from './types/Network';
+
+// Contracts the tasks address by name that have no deployments/<network> record
+const contracts: { [name: string]: ContractData } = {
+  // The ELFI pool the tasks used before the registry. It is not the StakingPoolV2_ELFI deployment
+  // (0x24a7fb55e4AC2Cb40944bC560423B496DfA8803F on mainnet).
+  elfiV2StakingPool: {
+    [Network.mainnet]: '0xCD668B44C7Cf3B63722D5cE5F655De68dD8f2750',
+  },
+};
+
+export default contracts;
@@ -0,0 +1,17 @@
+import { ExplorerMap } from './types/ExplorerMap';
+import { Network } from './types/Network';
+
+const explorers: ExplorerMap = {
+  [Network.mainnet]: 'https://etherscan.io/address/',
+  [Network.ropsten]: 'https://ropsten.etherscan.io/address/',
+  [Network.rinkeby]: 'https://rinkeby.etherscan.io/address/',
+  [Network.kovan]: 'https://kovan.etherscan.io/address/',
+  [Network.sepolia]: 'https://sepolia.etherscan.io/address/',
+  [Network.bscMain]: 'https://bscscan.com/address/',
+  [Network.bscTest]: 'https://testnet.bscscan.com/address/',
+  [Network.ganache]: null,
+  [Network.hardhat]: null,
+  [Network.localhost]: null,
+};
+
+export default explorers;
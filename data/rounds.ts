@@ -1,12 +1,29 @@
 import { ethers } from "ethers";
 import { InitRoundData } from "./types/InitRoundData";
+import { RoundCatalogue } from "./types/RoundCatalogue";
+import { Network } from "./types/Network";
 
-export const third: InitRoundData = {
-  rewardPerSecond: ethers.utils.parseEther('1250').div(86400),
-  year: 2021,
-  month: 9,
-  day: 25,
-  hour: 10,
+const fourWeeks = 28 * 86400;
+
+const april2022 = (totalReward: string): InitRoundData => ({
+  rewardPerSecond: ethers.utils.parseEther(totalReward).div(fourWeeks),
+  year: 2022,
+  month: 4,
+  day: 18,
+  hour: 19,
   minute: 0,
-  duration: ethers.BigNumber.from(40).mul(86400).toNumber(),
+  timezone: "Asia/Seoul",
+  duration: fourWeeks,
+  applied: true,
+});
+
+const rounds: RoundCatalogue = {
+  [Network.mainnet]: {
+    StakingPoolV2_EL: [april2022('10633450')],
+    StakingPoolV2_ELFI: [april2022('531511')],
+    StakingPoolV2_ELFI_DAI_LP: [april2022('475755.5')],
+    StakingPoolV2_ELFI_ETH_LP: [april2022('475755.5')],
+  },
 };
+
+export default rounds;
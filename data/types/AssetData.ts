@@ -1,8 +1,7 @@
-import { ABI } from 'hardhat-deploy/types';
-
 export interface AssetData {
   [network: string]: {
-    abi: ABI;
     address: string;
+    decimals: number;
+    symbol: string;
   };
 }
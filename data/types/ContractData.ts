@@ -0,0 +1,3 @@
+export interface ContractData {
+  [network: string]: string;
+}
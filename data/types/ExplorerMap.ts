@@ -0,0 +1,4 @@
+// Address page prefix of the block explorer per network, null for networks without one.
+export interface ExplorerMap {
+  [network: string]: string | null;
+}
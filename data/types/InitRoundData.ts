@@ -1,5 +1,6 @@
 import { ethers } from "ethers";
 
+// year, month (1-12), day, hour (0-23) and minute are wall-clock fields in `timezone`.
 export interface InitRoundData {
     rewardPerSecond: ethers.BigNumber;
     year: number;
@@ -7,5 +8,8 @@ export interface InitRoundData {
     day: number;
     hour: number
     minute: number
+    timezone: string;
     duration: number;
-  }
\ No newline at end of file
+    // Set once the round is sent, rounds:apply skips pools whose latest round is applied
+    applied?: boolean;
+  }
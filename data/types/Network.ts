@@ -1,7 +1,12 @@
 export enum Network {
   hardhat = 'hardhat',
+  localhost = 'localhost',
   ganache = 'ganache',
   ropsten = 'ropsten',
   kovan = 'kovan',
+  rinkeby = 'rinkeby',
+  sepolia = 'sepolia',
   mainnet = 'mainnet',
+  bscMain = 'bscMain',
+  bscTest = 'bscTest',
 }
@@ -0,0 +1,15 @@
+// A StakingPoolV2 deployment. Assets are a token of data/assets (deployed by deploy/test on
+// local networks) or an address.
+export interface PoolConfig {
+  name: string;
+  stakingAsset: string;
+  rewardAsset: string;
+  // Receives the ownership after deployment, the deployer keeps it when unset
+  owner?: string;
+  managers?: string[];
+}
+
+// Pools deployed by deploy/pools.ts per network, read from data/pools.json.
+export interface PoolManifest {
+  [network: string]: PoolConfig[];
+}
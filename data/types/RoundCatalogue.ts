@@ -0,0 +1,8 @@
+import { InitRoundData } from './InitRoundData';
+
+// Rounds of each pool deployment per network, oldest first.
+export interface RoundCatalogue {
+  [network: string]: {
+    [pool: string]: InitRoundData[];
+  };
+}
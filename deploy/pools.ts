@@ -0,0 +1,67 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { getPoolConfigs, readPoolManifest, resolvePoolAsset } from '../utils/pools';
+
+// Deploys the pools of the network listed in data/pools.json. Pools that are already deployed are
+// kept, so a new entry only deploys the new pool.
+const pools: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, getOrNull, read, execute } = hre.deployments;
+  const configs = getPoolConfigs(readPoolManifest(), hre.network.name);
+
+  if (configs.length === 0) {
+    console.log(`No pools for ${hre.network.name} in data/pools.json`);
+    return;
+  }
+
+  const erc20MetadataLibrary =
+    (await getOrNull('ERC20Metadata')) ||
+    (await deploy('ERC20Metadata', {
+      from: deployer,
+      log: true,
+    }));
+
+  let newlyDeployed = false;
+  for (const config of configs) {
+    const stakingPool = await deploy(config.name, {
+      contract: 'StakingPoolV2',
+      from: deployer,
+      args: [
+        await resolvePoolAsset(hre, config.stakingAsset),
+        await resolvePoolAsset(hre, config.rewardAsset),
+      ],
+      libraries: {
+        ERC20Metadata: erc20MetadataLibrary.address,
+      },
+      skipIfAlreadyDeployed: true,
+      log: true,
+    });
+    newlyDeployed = newlyDeployed || stakingPool.newlyDeployed === true;
+
+    const owner: string = await read(config.name, 'owner');
+    if (owner.toLowerCase() !== deployer.toLowerCase()) {
+      console.log(`${config.name} is owned by ${owner}, managers and owner are left as they are`);
+      continue;
+    }
+
+    for (const manager of config.managers || []) {
+      if (!(await read(config.name, 'isManager', manager))) {
+        await execute(config.name, { from: deployer, log: true }, 'setManager', manager);
+      }
+    }
+    if (config.owner && config.owner.toLowerCase() !== deployer.toLowerCase()) {
+      await execute(config.name, { from: deployer, log: true }, 'transferOwnership', config.owner);
+    }
+  }
+
+  if (hre.network.live && newlyDeployed) {
+    await hre.run('etherscan-verify', {
+      network: hre.network.name,
+    });
+  }
+};
+pools.tags = ['pools'];
+// the pool assets of local networks are deployed by deploy/test
+pools.runAtTheEnd = true;
+
+export default pools;
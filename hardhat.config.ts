@@ -10,7 +10,15 @@ import 'solidity-coverage';
 
 import { HardhatUserConfig } from 'hardhat/types';
 
-import './tasks/prepareStaking';
+import './tasks/admin';
+import './tasks/assets';
+import './tasks/campaign';
+import './tasks/deployments';
+import './tasks/emergency';
+import './tasks/managers';
+import './tasks/pool';
+import './tasks/rounds';
+import './tasks/tx';
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -39,7 +47,7 @@ const config: HardhatUserConfig = {
     },
     mainnet: {
       url: `https://mainnet.infura.io/v3/${process.env.INFURA_API_KEY}`,
-      accounts: [process.env.ADMIN || ''],
+      accounts: process.env.ADMIN ? [process.env.ADMIN] : [],
       chainId: 1,
       gasPrice: 30000000000,
     },
@@ -52,7 +60,7 @@ const config: HardhatUserConfig = {
     },
     rinkeby: {
       url: `https://rinkeby.infura.io/v3/${process.env.INFURA_API_KEY}`,
-      accounts: [process.env.ADMIN || ''],
+      accounts: process.env.ADMIN ? [process.env.ADMIN] : [],
       /*
       accounts: {
         mnemonic: process.env.TEST_MNEMONIC,
@@ -60,6 +68,11 @@ const config: HardhatUserConfig = {
       */
       chainId: 4,
     },
+    sepolia: {
+      url: `https://sepolia.infura.io/v3/${process.env.INFURA_API_KEY}`,
+      accounts: process.env.ADMIN ? [process.env.ADMIN] : [],
+      chainId: 11155111,
+    },
     kovan: {
       url: `https://kovan.infura.io/v3/${process.env.INFURA_API_KEY}`,
       accounts: {
@@ -71,7 +84,7 @@ const config: HardhatUserConfig = {
       url: 'https://bsc-dataseed.binance.org/',
       chainId: 56,
       gasPrice: 20000000000,
-      accounts: [process.env.ADMIN || ''],
+      accounts: process.env.ADMIN ? [process.env.ADMIN] : [],
     },
     bscTest: {
       url: 'https://data-seed-prebsc-1-s1.binance.org:8545',
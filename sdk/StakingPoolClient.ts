@@ -0,0 +1,103 @@
+import { BigNumberish, constants, ContractReceipt, providers, Signer } from 'ethers';
+import { ERC20__factory, StakingPoolV2, StakingPoolV2__factory } from '../typechain';
+import { PoolData, UserData } from '../utils/types';
+import { decodeStakingPoolError } from './errors';
+
+export class StakingPoolClient {
+  readonly pool: StakingPoolV2;
+
+  constructor(address: string, signerOrProvider: Signer | providers.Provider) {
+    this.pool = StakingPoolV2__factory.connect(address, signerOrProvider);
+  }
+
+  connect(signerOrProvider: Signer | providers.Provider): StakingPoolClient {
+    return new StakingPoolClient(this.pool.address, signerOrProvider);
+  }
+
+  async getPoolData(): Promise<PoolData> {
+    const [stakingAsset, rewardAsset] = await this.getAssets();
+    const poolData = await this.pool.getPoolData();
+
+    return {
+      rewardPerSecond: poolData.rewardPerSecond,
+      rewardIndex: poolData.rewardIndex,
+      startTimestamp: poolData.startTimestamp,
+      endTimestamp: poolData.endTimestamp,
+      totalPrincipal: poolData.totalPrincipal,
+      lastUpdateTimestamp: poolData.lastUpdateTimestamp,
+      stakingAssetBalance: await stakingAsset.balanceOf(this.pool.address),
+      rewardAssetBalance: await rewardAsset.balanceOf(this.pool.address),
+    };
+  }
+
+  async getUserData(user: string): Promise<UserData> {
+    const [stakingAsset, rewardAsset] = await this.getAssets();
+    const userData = await this.pool.getUserData(user);
+
+    return {
+      userIndex: userData.userIndex,
+      userReward: await this.pool.getUserReward(user),
+      userPreviousReward: userData.userReward,
+      userPrincipal: userData.userPrincipal,
+      stakingAssetBalance: await stakingAsset.balanceOf(user),
+      rewardAssetBalance: await rewardAsset.balanceOf(user),
+    };
+  }
+
+  // Approves the staking asset first if the allowance does not cover the amount
+  async stake(amount: BigNumberish, approveMax: boolean = false): Promise<ContractReceipt> {
+    const signer = this.getSigner();
+    const [stakingAsset] = await this.getAssets();
+    const owner = await signer.getAddress();
+
+    if ((await stakingAsset.allowance(owner, this.pool.address)).lt(amount)) {
+      const approveTx = await stakingAsset
+        .connect(signer)
+        .approve(this.pool.address, approveMax ? constants.MaxUint256 : amount);
+      await approveTx.wait();
+    }
+
+    return this.send(() => this.pool.connect(signer).stake(amount));
+  }
+
+  // Pass MaxUint256 to withdraw the whole principal
+  async withdraw(amount: BigNumberish): Promise<ContractReceipt> {
+    return this.send(() => this.pool.connect(this.getSigner()).withdraw(amount));
+  }
+
+  async claim(): Promise<ContractReceipt> {
+    return this.send(() => this.pool.connect(this.getSigner()).claim());
+  }
+
+  // Claims and moves the amount of principal to the next pool, the rest is withdrawn.
+  // Pass MaxUint256 to move the whole principal.
+  async migrate(amount: BigNumberish, nextPool: string): Promise<ContractReceipt> {
+    return this.send(() => this.pool.connect(this.getSigner()).migrate(amount, nextPool));
+  }
+
+  private async send(
+    sendTx: () => Promise<{ wait: () => Promise<ContractReceipt> }>
+  ): Promise<ContractReceipt> {
+    try {
+      const tx = await sendTx();
+      return await tx.wait();
+    } catch (e) {
+      throw decodeStakingPoolError(e);
+    }
+  }
+
+  private getSigner(): Signer {
+    if (!Signer.isSigner(this.pool.signer)) {
+      throw new Error('StakingPoolClient is connected to a provider, connect a signer to send');
+    }
+    return this.pool.signer;
+  }
+
+  private async getAssets() {
+    const signerOrProvider = this.pool.signer || this.pool.provider;
+    return Promise.all([
+      this.pool.stakingAsset().then((a) => ERC20__factory.connect(a, signerOrProvider)),
+      this.pool.rewardAsset().then((a) => ERC20__factory.connect(a, signerOrProvider)),
+    ]);
+  }
+}
@@ -0,0 +1,147 @@
+import { BigNumber, utils } from 'ethers';
+import { StakingPoolV2__factory } from '../typechain';
+
+export interface ParsedRevert {
+  name: string;
+  args: unknown[];
+}
+
+const stakingPoolInterface = StakingPoolV2__factory.createInterface();
+
+// The fields of the nested errors thrown by ethers and the providers
+interface ProviderError {
+  message?: unknown;
+  reason?: unknown;
+  data?: unknown;
+  error?: unknown;
+}
+
+const isProviderError = (value: unknown): value is ProviderError =>
+  typeof value === 'object' && value !== null;
+
+// The error and the errors it wraps through `error`, outermost first
+const getErrorChain = (error: unknown): ProviderError[] => {
+  const chain: ProviderError[] = [];
+  for (let e = error; isProviderError(e) && !chain.includes(e); e = e.error) {
+    chain.push(e);
+  }
+  return chain;
+};
+
+const findRevertData = (error: unknown): string | undefined => {
+  for (const e of getErrorChain(error)) {
+    const candidates = [e.data, isProviderError(e.data) ? e.data.data : undefined];
+    const data = candidates.find((d): d is string => typeof d === 'string' && utils.isHexString(d));
+    if (data !== undefined && data.length >= 10) return data;
+  }
+  return undefined;
+};
+
+// The revert reason or message of the outermost error that has one
+export const describeError = (error: unknown): string => {
+  for (const e of getErrorChain(error)) {
+    if (typeof e.reason === 'string') return e.reason;
+    if (typeof e.message === 'string') return e.message;
+  }
+  return String(error);
+};
+
+// Extracts the custom error or revert reason from a provider error
+export const parseRevert = (
+  error: unknown,
+  iface: utils.Interface = stakingPoolInterface
+): ParsedRevert | undefined => {
+  const data = findRevertData(error);
+
+  if (data === undefined) {
+    // The in-process Hardhat network reports reverts in the message only
+    for (const e of getErrorChain(error)) {
+      const message = typeof e.message === 'string' ? e.message : '';
+      const customError = /reverted with custom error '(\w+)\((.*?)\)'/.exec(message);
+      if (customError !== null) {
+        const args = customError[2] === '' ? [] : customError[2].split(', ');
+        return { name: customError[1], args };
+      }
+      const reason = /reverted with reason string '(.*?)'/.exec(message);
+      if (reason !== null) return { name: 'Error', args: [reason[1]] };
+    }
+    return undefined;
+  }
+
+  if (data.startsWith('0x08c379a0')) {
+    return {
+      name: 'Error',
+      args: [utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(data, 4))[0]],
+    };
+  }
+  try {
+    const parsed = iface.parseError(data);
+    return { name: parsed.name, args: Array.from(parsed.args) };
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export class StakingPoolError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    // keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+}
+
+export class StakingNotInitiatedError extends StakingPoolError {}
+export class InvalidAmountError extends StakingPoolError {}
+export class ZeroRewardError extends StakingPoolError {}
+export class ZeroPrincipalError extends StakingPoolError {}
+export class FinishedError extends StakingPoolError {}
+export class ClosedError extends StakingPoolError {}
+export class EmergencyError extends StakingPoolError {}
+export class OnlyManagerError extends StakingPoolError {}
+export class NotSuccessorError extends StakingPoolError {}
+export class InvalidSuccessorError extends StakingPoolError {}
+
+export class NotEnoughPrincipalError extends StakingPoolError {
+  readonly principal: BigNumber;
+
+  constructor(principal: BigNumber, cause?: unknown) {
+    super(`Not enough principal, user principal is ${principal.toString()}`, cause);
+    this.principal = principal;
+  }
+}
+
+export class RevertError extends StakingPoolError {
+  constructor(readonly reason: string, cause?: unknown) {
+    super(reason, cause);
+  }
+}
+
+const errorClasses: { [name: string]: new (message: string, cause?: unknown) => StakingPoolError } =
+  {
+    StakingNotInitiated: StakingNotInitiatedError,
+    InvalidAmount: InvalidAmountError,
+    ZeroReward: ZeroRewardError,
+    ZeroPrincipal: ZeroPrincipalError,
+    Finished: FinishedError,
+    Closed: ClosedError,
+    Emergency: EmergencyError,
+    OnlyManager: OnlyManagerError,
+    NotSuccessor: NotSuccessorError,
+    InvalidSuccessor: InvalidSuccessorError,
+  };
+
+// Converts a provider error into one of the typed errors above, or returns it unchanged
+export const decodeStakingPoolError = (error: unknown): unknown => {
+  const revert = parseRevert(error);
+  if (revert === undefined) return error;
+
+  if (revert.name === 'NotEnoughPrincipal') {
+    return new NotEnoughPrincipalError(BigNumber.from(revert.args[0]), error);
+  }
+  if (revert.name === 'Error') {
+    return new RevertError(String(revert.args[0]), error);
+  }
+  const ErrorClass = errorClasses[revert.name];
+  return ErrorClass !== undefined ? new ErrorClass(revert.name, error) : error;
+};
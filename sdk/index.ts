@@ -0,0 +1,3 @@
+export { StakingPoolClient } from './StakingPoolClient';
+export * from './errors';
+export type { PoolData, UserData } from '../utils/types';
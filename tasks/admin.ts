@@ -0,0 +1,247 @@
+import { BigNumber, utils } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ERC20__factory, StakingPoolV2__factory } from '../typechain';
+import { getDeploymentBlock } from '../utils/deployments';
+import { planRewardBudget } from '../utils/planner';
+import { getExtendFunding } from '../utils/poolStatus';
+import { createTaskRunner, RunnerArgs, TaskRunner, withRunnerParams } from './utils/runner';
+
+interface PoolArgs extends RunnerArgs {
+  pool: string;
+}
+
+interface ExtendArgs extends PoolArgs {
+  duration: number;
+  budget?: string;
+  rewardPerSecond?: string;
+}
+
+type PoolData = {
+  [key in
+    | 'rewardPerSecond'
+    | 'rewardIndex'
+    | 'startTimestamp'
+    | 'endTimestamp'
+    | 'totalPrincipal'
+    | 'lastUpdateTimestamp']: BigNumber;
+};
+
+interface EmergencyArgs extends PoolArgs {
+  stop: boolean;
+}
+
+interface OwnershipArgs extends PoolArgs {
+  owner: string;
+}
+
+interface SuccessorArgs extends PoolArgs {
+  next: string;
+  approved: boolean;
+}
+
+interface MigrateArgs extends PoolArgs {
+  next: string;
+  amount: string;
+}
+
+const printPoolData = (label: string, poolData: PoolData) =>
+  console.log(
+    `${label}: rewardPerSecond ${poolData.rewardPerSecond}, rewardIndex ${poolData.rewardIndex}, ` +
+      `startTimestamp ${poolData.startTimestamp}, endTimestamp ${poolData.endTimestamp}, ` +
+      `totalPrincipal ${poolData.totalPrincipal}, lastUpdateTimestamp ${poolData.lastUpdateTimestamp}`
+  );
+
+const getPool = async (hre: HardhatRuntimeEnvironment, runner: TaskRunner, name: string) =>
+  StakingPoolV2__factory.connect((await hre.deployments.get(name)).address, runner.provider);
+
+withRunnerParams(task('pool:extend', 'Restart the pool now with a new rate and duration'))
+  .addParam('pool', 'The pool deployment')
+  .addParam('duration', 'The duration from now in seconds', undefined, types.int)
+  .addOptionalParam('budget', 'The reward of the new period in token units')
+  .addOptionalParam('rewardPerSecond', 'The new reward per second in wei, instead of a budget')
+  .setAction(async (args: ExtendArgs, hre: HardhatRuntimeEnvironment) => {
+    if (args.duration <= 0) {
+      throw new Error(`--duration must be a positive number of seconds, got ${args.duration}`);
+    }
+    if ((args.budget === undefined) === (args.rewardPerSecond === undefined)) {
+      throw new Error('Pass either --budget or --reward-per-second');
+    }
+    const runner = await createTaskRunner(hre, args);
+    const deployment = await hre.deployments.get(args.pool);
+    const pool = StakingPoolV2__factory.connect(deployment.address, runner.provider);
+    const rewardAsset = ERC20__factory.connect(await pool.rewardAsset(), runner.provider);
+    const decimals = await rewardAsset.decimals();
+    const { duration } = args;
+
+    const caller = await runner.signer.getAddress();
+    if (!(await pool.isManager(caller))) {
+      throw new Error(`${caller} is not a manager of ${args.pool}`);
+    }
+
+    let rewardPerSecond: BigNumber;
+    if (args.budget !== undefined) {
+      const plan = planRewardBudget(utils.parseUnits(args.budget, decimals), duration);
+      rewardPerSecond = plan.rewardPerSecond;
+      console.log(`rewardPerSecond ${rewardPerSecond} wei, ${plan.dust} wei of the budget is dust`);
+    } else {
+      rewardPerSecond = BigNumber.from(args.rewardPerSecond);
+    }
+
+    const funding = await getExtendFunding(
+      pool,
+      getDeploymentBlock(args.pool, deployment),
+      rewardPerSecond,
+      duration
+    );
+    const format = (amount: BigNumber) => utils.formatUnits(amount, decimals);
+    console.log(
+      `reward available ${format(funding.availableReward)}, owed to stakers ${format(
+        funding.owedReward
+      )} (the unaccrued ${format(funding.unaccruedReward)} of the current period is reused), ` +
+        `required ${format(funding.requiredReward)}`
+    );
+    if (!funding.shortfall.isZero()) {
+      throw new Error(
+        `${args.pool} lacks ${format(funding.shortfall)} to pay the new period, transfer it first`
+      );
+    }
+
+    const before = await pool.getPoolData();
+    const now = (await runner.provider.getBlock('latest')).timestamp;
+    printPoolData('before', before);
+    printPoolData('after (projected)', {
+      ...before,
+      rewardPerSecond,
+      rewardIndex: await pool.getRewardIndex(),
+      startTimestamp: BigNumber.from(now),
+      endTimestamp: BigNumber.from(now + duration),
+      lastUpdateTimestamp: BigNumber.from(now),
+    });
+
+    await runner.run(async () => {
+      const receipt = await runner.send(pool, 'extendPool', [rewardPerSecond, duration]);
+      if (receipt !== undefined && !runner.dryRun) printPoolData('after', await pool.getPoolData());
+    });
+  });
+
+withRunnerParams(task('pool:close', 'End the pool now, staking is not allowed afterwards'))
+  .addParam('pool', 'The pool deployment')
+  .setAction(async (args: PoolArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getPool(hre, runner, args.pool);
+
+    await runner.run(async () => {
+      await runner.send(pool, 'closePool');
+    });
+  });
+
+withRunnerParams(task('pool:set-emergency', 'Stop or resume claims of the pool'))
+  .addParam('pool', 'The pool deployment')
+  .addParam('stop', 'true to stop claims, false to resume them', undefined, types.boolean)
+  .setAction(async (args: EmergencyArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getPool(hre, runner, args.pool);
+
+    await runner.run(async () => {
+      await runner.send(pool, 'setEmergency', [args.stop]);
+    });
+  });
+
+withRunnerParams(
+  task('pool:retrieve-residue', 'Transfer the reward balance the pool does not owe to the owner')
+)
+  .addParam('pool', 'The pool deployment')
+  .setAction(async (args: PoolArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getPool(hre, runner, args.pool);
+
+    await runner.run(async () => {
+      await runner.send(pool, 'retrieveResidue');
+    });
+  });
+
+withRunnerParams(task('pool:transfer-ownership', 'Transfer the ownership of the pool'))
+  .addParam('pool', 'The pool deployment')
+  .addParam('owner', 'The new owner, e.g. the Safe')
+  .setAction(async (args: OwnershipArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getPool(hre, runner, args.pool);
+
+    await runner.run(async () => {
+      await runner.send(pool, 'transferOwnership', [args.owner]);
+    });
+  });
+
+withRunnerParams(
+  task('pool:set-successor', 'Allow or disallow stakers to migrate to the next pool')
+)
+  .addParam('pool', 'The pool deployment')
+  .addParam('next', 'The next pool deployment')
+  .addOptionalParam('approved', 'false to disallow the migration', true, types.boolean)
+  .setAction(async (args: SuccessorArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getPool(hre, runner, args.pool);
+    const next = await getPool(hre, runner, args.next);
+
+    if (args.approved && (await pool.stakingAsset()) !== (await next.stakingAsset())) {
+      throw new Error(`${args.next} does not stake the staking asset of ${args.pool}`);
+    }
+
+    await runner.run(async () => {
+      await runner.send(pool, 'setSuccessor', [next.address, args.approved]);
+    });
+  });
+
+withRunnerParams(
+  task('pool:migrate', 'Claim the reward and move the principal of the signer to the next pool')
+)
+  .addParam('pool', 'The pool deployment')
+  .addParam('next', 'The next pool deployment, approved with pool:set-successor')
+  .addOptionalParam(
+    'amount',
+    'The principal to migrate in token units, the rest is withdrawn',
+    'all'
+  )
+  .setAction(async (args: MigrateArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getPool(hre, runner, args.pool);
+    const next = await getPool(hre, runner, args.next);
+    const stakingAsset = ERC20__factory.connect(await pool.stakingAsset(), runner.provider);
+    const rewardAsset = ERC20__factory.connect(await pool.rewardAsset(), runner.provider);
+
+    if (!(await pool.isSuccessor(next.address))) {
+      throw new Error(`${args.next} is not a successor of ${args.pool}, run pool:set-successor`);
+    }
+
+    // staking before the start of a pool reverts
+    const { timestamp } = await runner.provider.getBlock('latest');
+    if ((await next.getPoolData()).startTimestamp.gt(timestamp)) {
+      throw new Error(`${args.next} has not started yet`);
+    }
+
+    const staker = await runner.signer.getAddress();
+    const { userPrincipal } = await pool.getUserData(staker);
+    if (userPrincipal.isZero()) {
+      throw new Error(`${staker} has no principal in ${args.pool}`);
+    }
+    const stakingDecimals = await stakingAsset.decimals();
+    const amount =
+      args.amount === 'all' ? userPrincipal : utils.parseUnits(args.amount, stakingDecimals);
+    if (amount.gt(userPrincipal)) {
+      throw new Error(
+        `${staker} has only ${utils.formatUnits(userPrincipal, stakingDecimals)} in ${args.pool}`
+      );
+    }
+
+    const reward = await pool.getUserReward(staker);
+    console.log(
+      `migrate ${utils.formatUnits(amount, stakingDecimals)} to ${args.next}, ` +
+        `withdraw ${utils.formatUnits(userPrincipal.sub(amount), stakingDecimals)}, ` +
+        `claim about ${utils.formatUnits(reward, await rewardAsset.decimals())}`
+    );
+
+    await runner.run(async () => {
+      await runner.send(pool, 'migrate', [amount, next.address]);
+    });
+  });
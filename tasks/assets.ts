@@ -0,0 +1,34 @@
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { validateAsset } from '../utils/assets';
+import { getRegistry } from '../utils/registry';
+
+interface ValidateArgs {
+  registry?: string;
+}
+
+task('assets:validate', 'Check that every registered asset of the network is an ERC20')
+  .addOptionalParam(
+    'registry',
+    'The registry network to validate, e.g. mainnet on a local fork, defaults to the network'
+  )
+  .setAction(async (args: ValidateArgs, hre: HardhatRuntimeEnvironment) => {
+    const registry = getRegistry(args.registry || hre.network.name);
+    const assets = registry.getAssets();
+    if (assets.length === 0) {
+      throw new Error(`No assets registered for ${registry.network}`);
+    }
+
+    let invalid = 0;
+    for (const asset of assets) {
+      const problems = await validateAsset(hre.ethers.provider, asset);
+      console.log(
+        `${asset.name} ${asset.address}: ${problems.length === 0 ? 'ok' : problems.join(', ')}`
+      );
+      if (problems.length > 0) invalid++;
+    }
+
+    if (invalid > 0) {
+      throw new Error(`${invalid} of ${assets.length} assets on ${registry.network} are invalid`);
+    }
+  });
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import { utils } from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getDeploymentBlock } from '../utils/deployments';
+import { loadPoolIndex, syncPoolIndex } from '../utils/indexer';
+import { allocateBudget, buildMerkleDistribution, getTimeWeightedStakes } from '../utils/merkle';
+
+interface MerkleArgs {
+  pool: string;
+  fromBlock: string;
+  toBlock: string;
+  budget: string;
+  decimals: string;
+  out: string;
+  confirmations: string;
+}
+
+task('campaign:merkle', 'Build the merkle distribution of a bonus campaign for a MerkleDistributor')
+  .addParam('pool', 'The pool deployment whose stakers are rewarded')
+  .addParam('fromBlock', 'The first block of the campaign')
+  .addParam('toBlock', 'The last block of the campaign')
+  .addParam('budget', 'The campaign budget in token units')
+  .addOptionalParam('decimals', 'The campaign token decimals', '18')
+  .addParam('out', 'The JSON file to write the root and the proofs to')
+  .addOptionalParam('confirmations', 'Blocks behind the head left unindexed against reorgs', '12')
+  .setAction(async (args: MerkleArgs, hre: HardhatRuntimeEnvironment) => {
+    const deployment = await hre.deployments.get(args.pool);
+    const index = await syncPoolIndex(
+      loadPoolIndex(
+        hre.network.name,
+        args.pool,
+        deployment.address,
+        getDeploymentBlock(args.pool, deployment)
+      ),
+      hre.ethers.provider,
+      { confirmations: parseInt(args.confirmations, 10), chunkSize: 5000 }
+    );
+
+    const toBlock = parseInt(args.toBlock, 10);
+    if (index.checkpoint === undefined || index.checkpoint < toBlock) {
+      throw new Error(`${args.pool} is indexed up to ${index.checkpoint}, not ${toBlock}`);
+    }
+    const fromTimestamp = (await hre.ethers.provider.getBlock(parseInt(args.fromBlock, 10)))
+      .timestamp;
+    const toTimestamp = (await hre.ethers.provider.getBlock(toBlock)).timestamp;
+
+    const weights = getTimeWeightedStakes(index.events, fromTimestamp, toTimestamp);
+    const decimals = parseInt(args.decimals, 10);
+    const distribution = buildMerkleDistribution(
+      allocateBudget(weights, utils.parseUnits(args.budget, decimals))
+    );
+
+    fs.mkdirSync(path.dirname(args.out), { recursive: true });
+    fs.writeFileSync(args.out, JSON.stringify(distribution, null, 2));
+
+    console.log(`merkleRoot: ${distribution.merkleRoot}`);
+    console.log(
+      `${Object.keys(distribution.claims).length} accounts share ` +
+        `${utils.formatUnits(distribution.tokenTotal, decimals)} -> ${args.out}`
+    );
+  });
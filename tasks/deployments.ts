@@ -0,0 +1,148 @@
+import fs from 'fs';
+import path from 'path';
+import { utils } from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import explorers from '../data/explorers';
+import { PoolConfig } from '../data/types/PoolManifest';
+import {
+  AddressBookEntry,
+  AddressBookFormat,
+  buildAddressBook,
+  formatAddressBook,
+  getDeploymentNetworks,
+  replaceAddressBookSection,
+} from '../utils/addressBook';
+import { getPoolConfigs, readPoolManifest } from '../utils/pools';
+import { PoolExpectation, readDeploymentRecord, verifyPoolDeployment } from '../utils/deployments';
+import { DEPLOYMENTS_DIR, getRegistry, TokenName } from '../utils/registry';
+
+interface VerifyArgs {
+  deployments?: string;
+  pool?: string;
+}
+
+interface AddressBookArgs {
+  networks?: string;
+  format: string;
+  out?: string;
+  readme?: string;
+}
+
+const FORMATS: AddressBookFormat[] = ['md', 'json', 'csv'];
+
+// The assets, owner and managers data/pools.json lists for the pool, and the ERC20Metadata
+// deployment of the network it should be linked to
+const getExpectation = (network: string, pool: string, configs: PoolConfig[]): PoolExpectation => {
+  const registry = getRegistry(network);
+  const resolve = (asset: string) =>
+    utils.isAddress(asset) ? asset : registry.getToken(asset as TokenName);
+  const expectation: PoolExpectation = {};
+
+  if (fs.existsSync(path.join(DEPLOYMENTS_DIR, network, 'ERC20Metadata.json'))) {
+    expectation.libraries = {
+      ERC20Metadata: readDeploymentRecord(network, 'ERC20Metadata').address,
+    };
+  }
+  const config = configs.find((config) => config.name === pool);
+  if (config === undefined) return expectation;
+
+  return {
+    ...expectation,
+    stakingAsset: resolve(config.stakingAsset),
+    rewardAsset: resolve(config.rewardAsset),
+    owner: config.owner,
+    managers: config.managers,
+  };
+};
+
+task(
+  'deployments:verify',
+  'Check the StakingPoolV2 deployments of the network against the chain and data/pools.json'
+)
+  .addOptionalParam(
+    'deployments',
+    'The deployments to verify, e.g. mainnet on a local fork, defaults to the network'
+  )
+  .addOptionalParam('pool', 'Only verify this deployment')
+  .setAction(async (args: VerifyArgs, hre: HardhatRuntimeEnvironment) => {
+    const network = args.deployments || hre.network.name;
+    const pools = getRegistry(network).pools.filter((pool) => !args.pool || pool === args.pool);
+    if (pools.length === 0) {
+      throw new Error(`No ${args.pool || 'StakingPoolV2_*'} deployment in deployments/${network}`);
+    }
+    const artifact = await hre.artifacts.readArtifact('StakingPoolV2');
+    const configs = getPoolConfigs(readPoolManifest(), network);
+
+    let drifted = 0;
+    for (const pool of pools) {
+      const record = readDeploymentRecord(network, pool);
+      const inManifest = configs.some((config) => config.name === pool);
+      const check = await verifyPoolDeployment(
+        hre.ethers.provider,
+        record,
+        artifact,
+        getExpectation(network, pool, configs)
+      );
+
+      console.log(
+        `${pool} ${record.address} (owner ${check.owner || '-'}): ${
+          check.problems.length === 0 ? 'ok' : 'drifted'
+        }`
+      );
+      check.problems.forEach((problem) => console.log(`  - ${problem}`));
+      check.notes.forEach((note) => console.log(`  note: ${note}`));
+      if (!inManifest) {
+        console.log(
+          `  note: not in data/pools.json, the assets are only checked against the record`
+        );
+      }
+      if (check.problems.length > 0) drifted++;
+    }
+
+    if (drifted > 0) {
+      throw new Error(`${drifted} of ${pools.length} pools in deployments/${network} drifted`);
+    }
+  });
+
+task('deployments:address-book', 'Print the addresses of deployments/* with explorer links')
+  .addOptionalParam(
+    'networks',
+    'Comma separated networks, defaults to every network in deployments'
+  )
+  .addOptionalParam('format', 'md, json or csv', 'md')
+  .addOptionalParam('out', 'Write the address book to the file instead of printing it')
+  .addOptionalParam('readme', 'Replace the address book section of the markdown file')
+  .setAction(async (args: AddressBookArgs, hre: HardhatRuntimeEnvironment) => {
+    const format = args.format as AddressBookFormat;
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Unknown format ${args.format}, use ${FORMATS.join(', ')}`);
+    }
+    if (args.readme && format !== 'md') {
+      throw new Error('--readme takes the md format');
+    }
+
+    const networks = args.networks ? args.networks.split(',') : getDeploymentNetworks();
+    const unknown = networks.filter((network) => hre.config.networks[network] === undefined);
+    if (unknown.length > 0) {
+      throw new Error(`${unknown.join(', ')} not in hardhat.config.ts`);
+    }
+
+    const book = formatAddressBook(
+      ([] as AddressBookEntry[]).concat(
+        ...networks.map((network) => buildAddressBook(network, explorers))
+      ),
+      format
+    );
+
+    if (args.readme) {
+      const readme = fs.readFileSync(args.readme, 'utf8');
+      fs.writeFileSync(args.readme, replaceAddressBookSection(readme, book));
+      console.log(`Updated the address book of ${args.readme}`);
+    } else if (args.out) {
+      fs.writeFileSync(args.out, `${book}\n`);
+      console.log(`Wrote ${args.out}`);
+    } else {
+      console.log(book);
+    }
+  });
@@ -0,0 +1,135 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { ContractReceipt } from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { StakingPoolV2, StakingPoolV2__factory } from '../typechain';
+import { getDeploymentBlock } from '../utils/deployments';
+import { getPoolStatus, getStakers, PoolStatus } from '../utils/poolStatus';
+import { createTaskRunner, decodeRevert, RunnerArgs, withRunnerParams } from './utils/runner';
+
+interface EmergencyArgs extends RunnerArgs {
+  pool: string;
+  close: boolean;
+  lift: boolean;
+  yes: boolean;
+  log?: string;
+}
+
+const confirm = async (question: string, yes: boolean) => {
+  if (yes) return;
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>((resolve) => rl.question(`${question} [y/N] `, resolve));
+  rl.close();
+  if (answer.trim().toLowerCase() !== 'y') throw new Error(`Aborted at: ${question}`);
+};
+
+const formatStatus = (status: PoolStatus) =>
+  `rewardPerSecond ${status.rewardPerSecond}, startTimestamp ${status.startTimestamp}, ` +
+  `endTimestamp ${status.endTimestamp}, totalPrincipal ${status.totalPrincipal}, ` +
+  `rewardBalance ${status.rewardBalance}, availableReward ${status.availableReward}, ` +
+  `owedReward ${status.owedReward}`;
+
+// Calls claim, withdraw and stake statically from a staker to show what users can still do
+const checkUserActions = async (pool: StakingPoolV2, staker: string) => {
+  const check = async (call: () => Promise<unknown>) => {
+    try {
+      await call();
+      return 'works';
+    } catch (e) {
+      return `reverts with ${decodeRevert(e, pool.interface)}`;
+    }
+  };
+
+  return [
+    `claim ${await check(() => pool.callStatic.claim({ from: staker }))}`,
+    `withdraw ${await check(() => pool.callStatic.withdraw(1, { from: staker }))}`,
+    // stake fails on the allowance if the pool is open, only Closed matters here
+    `stake ${await check(() => pool.callStatic.stake(1, { from: staker })).then((result) =>
+      result.includes('Closed') ? result : 'works'
+    )}`,
+  ];
+};
+
+withRunnerParams(
+  task('pool:emergency', 'Stop claims of a pool, optionally close it, and log every step')
+)
+  .addParam('pool', 'The pool deployment')
+  .addFlag('close', 'Also close the pool, which cannot be undone')
+  .addFlag('lift', 'Lift the emergency instead, claims work again')
+  .addFlag('yes', 'Skip the confirmations')
+  .addOptionalParam('log', 'The incident log, defaults to incidents/<network>-<pool>.log')
+  .setAction(async (args: EmergencyArgs, hre: HardhatRuntimeEnvironment) => {
+    if (args.close && args.lift) {
+      throw new Error('--close cannot be lifted, pass only one of --close and --lift');
+    }
+    const logFile = args.log || path.join('incidents', `${hre.network.name}-${args.pool}.log`);
+    fs.mkdirSync(path.dirname(logFile), { recursive: true });
+    const log = (message: string) => {
+      console.log(message);
+      fs.appendFileSync(logFile, `${new Date().toISOString()} ${message}\n`);
+    };
+    const logSent = (call: string, receipt?: ContractReceipt) =>
+      log(
+        receipt !== undefined
+          ? `${call}: ${runnerMode}${receipt.transactionHash}`
+          : `${call}: written to ${args.safeBatch || args.unsigned}`
+      );
+
+    const runner = await createTaskRunner(hre, args);
+    const runnerMode = runner.dryRun ? '[dry-run] ' : '';
+    const deployment = await hre.deployments.get(args.pool);
+    const deploymentBlock = getDeploymentBlock(args.pool, deployment);
+    const pool = StakingPoolV2__factory.connect(deployment.address, runner.provider);
+
+    const caller = await runner.signer.getAddress();
+    log(`${args.lift ? 'lifting the emergency of' : 'emergency on'} ${args.pool} by ${caller}`);
+    log(`before: ${formatStatus(await getPoolStatus(args.pool, pool, deploymentBlock))}`);
+
+    try {
+      await runner.run(async () => {
+        if (args.lift) {
+          await confirm(`Call setEmergency(false) on ${args.pool}?`, args.yes);
+          logSent('setEmergency(false)', await runner.send(pool, 'setEmergency', [false]));
+        } else {
+          await confirm(`Call setEmergency(true) on ${args.pool}? Claims will revert`, args.yes);
+          logSent('setEmergency(true)', await runner.send(pool, 'setEmergency', [true]));
+
+          if (args.close) {
+            await confirm(`Call closePool() on ${args.pool}? This cannot be undone`, args.yes);
+            logSent('closePool()', await runner.send(pool, 'closePool'));
+          }
+        }
+
+        if (runner.safeBatch !== undefined || runner.unsigned !== undefined) {
+          log('the calls are not sent yet, user actions are unchanged until they are executed');
+          return;
+        }
+
+        log(`after: ${formatStatus(await getPoolStatus(args.pool, pool, deploymentBlock))}`);
+
+        // any staker with principal shows what users can do now
+        const stakers = await getStakers(
+          pool,
+          deploymentBlock,
+          await runner.provider.getBlockNumber()
+        );
+        const principals = await Promise.all(
+          stakers.map(async (staker) => (await pool.getUserData(staker)).userPrincipal)
+        );
+        const staker = stakers.find((_, i) => !principals[i].isZero());
+        if (staker === undefined) {
+          log('no staker with principal to check user actions with');
+          return;
+        }
+        (await checkUserActions(pool, staker)).forEach((action) => log(`users: ${action}`));
+      });
+    } catch (e) {
+      // aborted confirmations and failed calls end up in the incident too
+      log(`stopped: ${(e as Error).message}`);
+      throw e;
+    } finally {
+      console.log(`incident log: ${logFile}`);
+    }
+  });
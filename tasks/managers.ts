@@ -0,0 +1,121 @@
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { StakingPoolV2__factory } from '../typechain';
+import { getDeploymentBlock } from '../utils/deployments';
+import { getPoolAccess } from '../utils/managers';
+import { getPoolDeployments, POOL_PREFIX } from './utils';
+import { createTaskRunner, RunnerArgs, TaskRunner, withRunnerParams } from './utils/runner';
+
+interface ManagerArgs extends RunnerArgs {
+  pool: string;
+  account: string;
+}
+
+interface ListArgs {
+  pool?: string;
+}
+
+const getPools = async (hre: HardhatRuntimeEnvironment, pool?: string) => {
+  const pools = (await getPoolDeployments(hre)).filter(
+    ({ name }) => pool === undefined || name === pool
+  );
+  if (pools.length === 0) {
+    throw new Error(`No ${pool || `${POOL_PREFIX}*`} deployment on ${hre.network.name}`);
+  }
+  return pools;
+};
+
+// Only the owner changes managers, check it before sending anything
+const getOwnedPool = async (hre: HardhatRuntimeEnvironment, runner: TaskRunner, name: string) => {
+  const pool = StakingPoolV2__factory.connect(
+    (await hre.deployments.get(name)).address,
+    runner.provider
+  );
+  const caller = await runner.signer.getAddress();
+  const owner = await pool.owner();
+  if (owner.toLowerCase() !== caller.toLowerCase()) {
+    throw new Error(`${name} is owned by ${owner}, not ${caller}`);
+  }
+  return pool;
+};
+
+withRunnerParams(task('managers:add', 'Allow the account to extend the pool'))
+  .addParam('pool', 'The pool deployment')
+  .addParam('account', 'The manager to add')
+  .setAction(async (args: ManagerArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getOwnedPool(hre, runner, args.pool);
+    if (await pool.isManager(args.account)) {
+      console.log(`${args.account} is already a manager of ${args.pool}`);
+      return;
+    }
+
+    await runner.run(async () => {
+      await runner.send(pool, 'setManager', [args.account]);
+    });
+  });
+
+withRunnerParams(task('managers:remove', 'Revoke the manager role of the account'))
+  .addParam('pool', 'The pool deployment')
+  .addParam('account', 'The manager to revoke')
+  .setAction(async (args: ManagerArgs, hre: HardhatRuntimeEnvironment) => {
+    const runner = await createTaskRunner(hre, args);
+    const pool = await getOwnedPool(hre, runner, args.pool);
+    if (args.account.toLowerCase() === (await pool.owner()).toLowerCase()) {
+      throw new Error(`${args.account} owns ${args.pool} and stays a manager while it does`);
+    }
+    if (!(await pool.isManager(args.account))) {
+      console.log(`${args.account} is not a manager of ${args.pool}`);
+      return;
+    }
+
+    await runner.run(async () => {
+      await runner.send(pool, 'revokeManager', [args.account]);
+    });
+  });
+
+task('managers:list', 'Rebuild the managers of the pools from events and confirm them on chain')
+  .addOptionalParam('pool', 'List only the managers of this pool deployment')
+  .setAction(async (args: ListArgs, hre: HardhatRuntimeEnvironment) => {
+    const toBlock = await hre.ethers.provider.getBlockNumber();
+
+    for (const { name, deployment } of await getPools(hre, args.pool)) {
+      const pool = StakingPoolV2__factory.connect(deployment.address, hre.ethers.provider);
+      const access = await getPoolAccess(pool, getDeploymentBlock(name, deployment), toBlock);
+
+      console.log(`${name} (owner ${access.owner})`);
+      if (access.managers.length === 0) console.log('  no managers besides the owner');
+      access.managers.forEach((manager) => {
+        console.log(
+          `  ${manager.address} since block ${manager.addedAt}` +
+            `${manager.confirmed ? '' : ', but isManager is false'}`
+        );
+      });
+    }
+  });
+
+task('access:report', 'Show who can call the owner and manager functions of every pool').setAction(
+  async (_, hre: HardhatRuntimeEnvironment) => {
+    const provider = hre.ethers.provider;
+    const toBlock = await provider.getBlockNumber();
+    const rows = [];
+
+    for (const { name, deployment } of await getPools(hre)) {
+      const pool = StakingPoolV2__factory.connect(deployment.address, provider);
+      const access = await getPoolAccess(pool, getDeploymentBlock(name, deployment), toBlock);
+      const ownerCode = await provider.getCode(access.owner);
+
+      rows.push({
+        pool: name,
+        owner: access.owner,
+        // a multisig owner is a contract
+        ownerType: ownerCode === '0x' ? 'EOA' : 'contract',
+        managers: access.managers
+          .map((manager) => `${manager.address}${manager.confirmed ? '' : ' (unconfirmed)'}`)
+          .join(' '),
+      });
+    }
+
+    console.table(rows);
+  }
+);
@@ -0,0 +1,281 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, utils } from 'ethers';
+import moment from 'moment';
+import 'moment-timezone';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ERC20__factory, StakingPoolV2__factory } from '../typechain';
+import { getDeploymentBlock } from '../utils/deployments';
+import { getIndexPath, loadPoolIndex, syncPoolIndex } from '../utils/indexer';
+import { getPoolStatus, PoolStatus } from '../utils/poolStatus';
+import { hasDrift, reconcilePool } from '../utils/reconcile';
+import { getResidueReport } from '../utils/residue';
+import {
+  PoolSnapshot,
+  snapshotFromChain,
+  snapshotFromIndex,
+  snapshotToCsv,
+  snapshotToJson,
+} from '../utils/snapshot';
+import { getPoolDeployments, POOL_PREFIX } from './utils';
+
+interface StatusArgs {
+  json: boolean;
+}
+
+interface IndexArgs {
+  pool?: string;
+  confirmations: string;
+  chunkSize: string;
+}
+
+interface ReconcileArgs {
+  pool?: string;
+  confirmations: string;
+}
+
+interface ResidueArgs {
+  pool?: string;
+  confirmations: string;
+}
+
+interface SnapshotArgs {
+  block: string;
+  pool?: string;
+  fromIndex: boolean;
+  confirmations: string;
+  out: string;
+}
+
+const formatTime = (timestamp: number, timezone: string) =>
+  moment.unix(timestamp).tz(timezone).format('YYYY-MM-DD HH:mm');
+
+const formatDuration = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return `${days}d ${hours}h ${minutes}m`;
+};
+
+const toJson = (status: PoolStatus) => {
+  const json: { [key: string]: unknown } = {};
+  Object.keys(status).forEach((key) => {
+    const value = status[key as keyof PoolStatus];
+    json[key] = BigNumber.isBigNumber(value) ? value.toString() : value;
+  });
+  return json;
+};
+
+task('pool:status', 'Print the state of every StakingPoolV2 deployed on the network')
+  .addFlag('json', 'Print JSON instead of a table')
+  .setAction(async (args: StatusArgs, hre: HardhatRuntimeEnvironment) => {
+    const pools = await getPoolDeployments(hre);
+    if (pools.length === 0) {
+      throw new Error(`No ${POOL_PREFIX}* deployments on ${hre.network.name}`);
+    }
+
+    const statuses: PoolStatus[] = [];
+    for (const { name, deployment } of pools) {
+      const pool = StakingPoolV2__factory.connect(deployment.address, hre.ethers.provider);
+      statuses.push(await getPoolStatus(name, pool, getDeploymentBlock(name, deployment)));
+    }
+
+    if (args.json) {
+      console.log(JSON.stringify(statuses.map(toJson), null, 2));
+      return;
+    }
+
+    console.table(
+      statuses.map((status) => {
+        const format = (amount: BigNumber) => utils.formatUnits(amount, status.rewardDecimals);
+        return {
+          pool: status.name,
+          assets: `${status.stakingSymbol}→${status.rewardSymbol}`,
+          rewardPerSecond: format(status.rewardPerSecond),
+          'start (UTC)': formatTime(status.startTimestamp, 'UTC'),
+          'end (UTC)': formatTime(status.endTimestamp, 'UTC'),
+          'start (KST)': formatTime(status.startTimestamp, 'Asia/Seoul'),
+          'end (KST)': formatTime(status.endTimestamp, 'Asia/Seoul'),
+          remaining: formatDuration(status.remaining),
+          totalPrincipal: utils.formatUnits(status.totalPrincipal, status.stakingDecimals),
+          rewardBalance: format(status.rewardBalance),
+          unclaimed: format(status.owedReward),
+          funded: status.fundedToEnd,
+        };
+      })
+    );
+  });
+
+task('pool:index', 'Index the event history of the pools into .index/<network>/<pool>.json')
+  .addOptionalParam('pool', 'Index only this pool deployment')
+  .addOptionalParam('confirmations', 'Blocks behind the head left unindexed against reorgs', '12')
+  .addOptionalParam('chunkSize', 'Blocks per getLogs request', '5000')
+  .setAction(async (args: IndexArgs, hre: HardhatRuntimeEnvironment) => {
+    const pools = (await getPoolDeployments(hre)).filter(
+      ({ name }) => args.pool === undefined || name === args.pool
+    );
+    if (pools.length === 0) {
+      throw new Error(`No ${args.pool || `${POOL_PREFIX}*`} deployment on ${hre.network.name}`);
+    }
+
+    for (const { name, deployment } of pools) {
+      const index = loadPoolIndex(
+        hre.network.name,
+        name,
+        deployment.address,
+        getDeploymentBlock(name, deployment)
+      );
+
+      await syncPoolIndex(index, hre.ethers.provider, {
+        confirmations: parseInt(args.confirmations, 10),
+        chunkSize: parseInt(args.chunkSize, 10),
+      });
+
+      console.log(
+        `${name}: ${index.events.length} events up to block ${index.checkpoint} ` +
+          `in ${getIndexPath(hre.network.name, name)}`
+      );
+    }
+  });
+
+task(
+  'pool:reconcile',
+  'Replay the indexed events through the reward model and compare with the chain'
+)
+  .addOptionalParam('pool', 'Reconcile only this pool deployment')
+  .addOptionalParam('confirmations', 'Blocks behind the head left unindexed against reorgs', '12')
+  .setAction(async (args: ReconcileArgs, hre: HardhatRuntimeEnvironment) => {
+    const pools = (await getPoolDeployments(hre)).filter(
+      ({ name }) => args.pool === undefined || name === args.pool
+    );
+    if (pools.length === 0) {
+      throw new Error(`No ${args.pool || `${POOL_PREFIX}*`} deployment on ${hre.network.name}`);
+    }
+
+    for (const { name, deployment } of pools) {
+      const pool = StakingPoolV2__factory.connect(deployment.address, hre.ethers.provider);
+      const index = await syncPoolIndex(
+        loadPoolIndex(hre.network.name, name, pool.address, getDeploymentBlock(name, deployment)),
+        hre.ethers.provider,
+        { confirmations: parseInt(args.confirmations, 10), chunkSize: 5000 }
+      );
+      const result = await reconcilePool(pool, index);
+      const drifts = result.users.filter(hasDrift);
+
+      console.log(
+        `${name} at block ${result.blockNumber}: ${result.users.length} stakers, ` +
+          `${drifts.length} drifting, rewardIndex drift ${result.rewardIndexDrift}, ` +
+          `totalPrincipal drift ${result.totalPrincipalDrift}`
+      );
+      if (result.principalSurplus !== undefined && !result.principalSurplus.isZero()) {
+        console.log(
+          `  the pool holds ${result.principalSurplus} wei of the staking asset beyond the principal`
+        );
+      }
+      if (drifts.length === 0) continue;
+
+      // drift is the on-chain value minus the model, in wei
+      console.table(
+        drifts.map((drift) => ({
+          user: drift.user,
+          userIndex: drift.userIndex.toString(),
+          userReward: drift.userReward.toString(),
+          userPrincipal: drift.userPrincipal.toString(),
+          accruedReward: drift.accruedReward.toString(),
+        }))
+      );
+    }
+  });
+
+task(
+  'pool:residue',
+  'Compute from the event history how much retrieveResidue can take without stranding rewards'
+)
+  .addOptionalParam('pool', 'Check only this pool deployment')
+  .addOptionalParam('confirmations', 'Blocks behind the head left unindexed against reorgs', '12')
+  .setAction(async (args: ResidueArgs, hre: HardhatRuntimeEnvironment) => {
+    const pools = (await getPoolDeployments(hre)).filter(
+      ({ name }) => args.pool === undefined || name === args.pool
+    );
+    if (pools.length === 0) {
+      throw new Error(`No ${args.pool || `${POOL_PREFIX}*`} deployment on ${hre.network.name}`);
+    }
+
+    for (const { name, deployment } of pools) {
+      const pool = StakingPoolV2__factory.connect(deployment.address, hre.ethers.provider);
+      const index = await syncPoolIndex(
+        loadPoolIndex(hre.network.name, name, pool.address, getDeploymentBlock(name, deployment)),
+        hre.ethers.provider,
+        { confirmations: parseInt(args.confirmations, 10), chunkSize: 5000 }
+      );
+      const report = await getResidueReport(pool, index);
+      const decimals = await ERC20__factory.connect(
+        await pool.rewardAsset(),
+        hre.ethers.provider
+      ).decimals();
+      const format = (amount: BigNumber) => utils.formatUnits(amount, decimals);
+
+      console.log(
+        `${name} at block ${report.blockNumber}: rewardBalance ${format(report.rewardBalance)}, ` +
+          `principal ${format(report.lockedPrincipal)}, owed ${format(report.owedReward)}, ` +
+          `safe residue ${format(report.safeResidue)}`
+      );
+      if (report.contractResidue.gt(report.safeResidue)) {
+        console.log(
+          `  retrieveResidue would take ${format(report.contractResidue)}` +
+            `${report.tracksOwedReward ? '' : ' (deployed before getOwedReward)'}, ` +
+            `stranding ${format(report.contractResidue.sub(report.safeResidue))} of user rewards`
+        );
+      }
+    }
+  });
+
+task('pool:snapshot', 'Export the principal, reward and votes of every staker at a block')
+  .addParam('block', 'The block number of the snapshot')
+  .addOptionalParam('pool', 'Snapshot only this pool deployment')
+  .addFlag('fromIndex', 'Replay the local event index, synced first, instead of the stakers state')
+  .addOptionalParam('confirmations', 'Blocks behind the head left unindexed against reorgs', '12')
+  .addOptionalParam('out', 'The directory to write the CSV and JSON files to', 'snapshots')
+  .setAction(async (args: SnapshotArgs, hre: HardhatRuntimeEnvironment) => {
+    const blockNumber = parseInt(args.block, 10);
+    const pools = (await getPoolDeployments(hre)).filter(
+      ({ name }) => args.pool === undefined || name === args.pool
+    );
+    if (pools.length === 0) {
+      throw new Error(`No ${args.pool || `${POOL_PREFIX}*`} deployment on ${hre.network.name}`);
+    }
+
+    fs.mkdirSync(args.out, { recursive: true });
+    for (const { name, deployment } of pools) {
+      const pool = StakingPoolV2__factory.connect(deployment.address, hre.ethers.provider);
+      const deploymentBlock = getDeploymentBlock(name, deployment);
+      if (blockNumber < deploymentBlock) continue;
+
+      let snapshot: PoolSnapshot;
+      if (args.fromIndex) {
+        const index = await syncPoolIndex(
+          loadPoolIndex(hre.network.name, name, pool.address, deploymentBlock),
+          hre.ethers.provider,
+          { confirmations: parseInt(args.confirmations, 10), chunkSize: 5000 }
+        );
+        snapshot = await snapshotFromIndex(pool, index, blockNumber);
+      } else {
+        snapshot = await snapshotFromChain(name, pool, deploymentBlock, blockNumber);
+      }
+
+      const file = path.join(args.out, `${hre.network.name}-${name}-${blockNumber}`);
+      fs.writeFileSync(`${file}.csv`, snapshotToCsv(snapshot));
+      fs.writeFileSync(`${file}.json`, snapshotToJson(snapshot));
+
+      console.log(
+        `${name}: ${snapshot.stakers.length} stakers, ` +
+          `principal ${utils.formatUnits(snapshot.totals.principal, snapshot.stakingDecimals)} ` +
+          `of totalPrincipal ${utils.formatUnits(
+            snapshot.totalPrincipal,
+            snapshot.stakingDecimals
+          )}` +
+          `${snapshot.reconciled ? '' : ' (MISMATCH)'} -> ${file}.csv`
+      );
+    }
+  });
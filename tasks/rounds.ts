@@ -0,0 +1,130 @@
+import { BigNumber, utils } from 'ethers';
+import { task, types } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ERC20__factory, StakingPoolV2__factory } from '../typechain';
+import rounds from '../data/rounds';
+import { planRewardBudget } from '../utils/planner';
+import { getPoolConfigs, POOLS_FILE, readPoolManifest, resolvePoolAsset } from '../utils/pools';
+import { formatRoundStart, getLatestRound, toInitNewPoolArgs } from '../utils/rounds';
+import { createTaskRunner, RunnerArgs, withRunnerParams } from './utils/runner';
+
+interface Args extends RunnerArgs {
+  pool?: string;
+  manifest?: string;
+}
+
+interface PlanArgs {
+  budget: string;
+  duration: number;
+  decimals: number;
+  window: number;
+}
+
+withRunnerParams(
+  task('rounds:apply', 'Fund and init the latest round of every pool in data/rounds.ts')
+)
+  .addOptionalParam('pool', 'Apply only the round of this pool deployment')
+  .addOptionalParam('manifest', 'The pool manifest the rounds are checked against', POOLS_FILE)
+  .setAction(async (args: Args, hre: HardhatRuntimeEnvironment) => {
+    const network = hre.network.name;
+    const listed = Object.keys(rounds[network] || {});
+    if (args.pool === undefined && listed.length === 0) {
+      throw new Error(`No rounds for network ${network} in data/rounds.ts`);
+    }
+    if (args.pool !== undefined && getLatestRound(rounds, network, args.pool).applied) {
+      throw new Error(`${args.pool}: the latest round in data/rounds.ts is already applied`);
+    }
+    // Rounds marked as applied are history, only the pending ones are sent
+    const pools =
+      args.pool !== undefined
+        ? [args.pool]
+        : listed.filter((pool) => !getLatestRound(rounds, network, pool).applied);
+    if (pools.length === 0) {
+      console.log(`Every round of ${network} in data/rounds.ts is applied`);
+      return;
+    }
+
+    // Validate every round and reward asset before sending anything
+    const plans = pools.map((pool) => {
+      const round = getLatestRound(rounds, network, pool);
+      return { pool, round, initArgs: toInitNewPoolArgs(round) };
+    });
+    const configs = getPoolConfigs(readPoolManifest(args.manifest), network);
+    for (const { pool: poolName } of plans) {
+      const config = configs.find((config) => config.name === poolName);
+      if (config === undefined) {
+        throw new Error(`${poolName}: no reward asset for ${network} in data/pools.json`);
+      }
+      const rewardAsset = await resolvePoolAsset(hre, config.rewardAsset);
+      const pool = StakingPoolV2__factory.connect(
+        (await hre.deployments.get(poolName)).address,
+        hre.ethers.provider
+      );
+      if ((await pool.rewardAsset()).toLowerCase() !== rewardAsset.toLowerCase()) {
+        throw new Error(`${poolName}: reward asset is not ${config.rewardAsset} (${rewardAsset})`);
+      }
+    }
+
+    const runner = await createTaskRunner(hre, args);
+
+    await runner.run(async () => {
+      for (const { pool: poolName, round, initArgs } of plans) {
+        const poolDeployment = await hre.deployments.get(poolName);
+        const pool = StakingPoolV2__factory.connect(poolDeployment.address, runner.provider);
+        const rewardAsset = ERC20__factory.connect(await pool.rewardAsset(), runner.provider);
+        const funding = initArgs.rewardPerSecond.mul(initArgs.duration);
+
+        console.log(
+          `${poolName}: ${funding.toString()} of ${rewardAsset.address} from ${formatRoundStart(
+            round
+          )} for ${initArgs.duration}s`
+        );
+
+        await runner.send(rewardAsset, 'transfer', [pool.address, funding]);
+        await runner.send(pool, 'initNewPool', [
+          initArgs.rewardPerSecond,
+          initArgs.startTimestamp,
+          initArgs.duration,
+        ]);
+      }
+    });
+  });
+
+task('rounds:plan', 'Compute the rate, funding and dust of a reward budget')
+  .addParam('budget', 'The total reward in token units')
+  .addParam('duration', 'The round duration in seconds', undefined, types.int)
+  .addOptionalParam('decimals', 'The reward token decimals', 18, types.int)
+  .addOptionalParam('window', 'Days around the duration to search for even durations', 7, types.int)
+  .setAction(async (args: PlanArgs) => {
+    if (args.duration <= 0) {
+      throw new Error(`--duration must be a positive number of seconds, got ${args.duration}`);
+    }
+    if (args.decimals < 0 || args.decimals > 77) {
+      throw new Error(`--decimals must be between 0 and 77, got ${args.decimals}`);
+    }
+    if (args.window < 0) {
+      throw new Error(`--window must not be negative, got ${args.window}`);
+    }
+    let budget: BigNumber;
+    try {
+      budget = utils.parseUnits(args.budget, args.decimals);
+    } catch (e) {
+      throw new Error(
+        `--budget must be an amount with at most ${args.decimals} decimals, got ${args.budget}`
+      );
+    }
+    const plan = planRewardBudget(budget, args.duration, args.window * 86400);
+
+    console.log(`rewardPerSecond:       ${plan.rewardPerSecond.toString()} wei`);
+    console.log(`exact rewardPerSecond: ${utils.formatUnits(plan.exactRewardPerSecond, 18)} wei`);
+    console.log(`required funding:      ${utils.formatUnits(plan.requiredFunding, args.decimals)}`);
+    console.log(`undistributed dust:    ${plan.dust.toString()} wei`);
+
+    if (plan.dust.isZero()) return;
+
+    console.log(
+      plan.evenDurations.length === 0
+        ? `no duration within ${args.window} days divides the budget evenly`
+        : `durations without dust: ${plan.evenDurations.slice(0, 10).join(', ')}`
+    );
+  });
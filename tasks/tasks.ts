@@ -1,66 +1,71 @@
 import { task } from 'hardhat/config';
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
-import { StakingPoolV2 } from '../typechain';
+import { StakingPoolV2__factory } from '../typechain';
 import { getDai } from '../utils/getDependencies';
-import { getStakingAsset, getStakingPool } from '../utils/getDeployedContracts';
+import { getStakingAsset } from '../utils/getDeployedContracts';
+import { createTaskRunner, RunnerArgs, withRunnerParams } from './utils/runner';
 
-interface Args {
+interface Args extends RunnerArgs {
   amount: string;
 }
 
-task('testnet:stake', 'Stake asset')
+withRunnerParams(task('testnet:stake', 'Stake asset'))
   .addParam('amount', 'The amount to stake')
   .setAction(async (args: Args, hre: HardhatRuntimeEnvironment) => {
-    const [deployer] = await hre.ethers.getSigners();
+    const runner = await createTaskRunner(hre, args);
+    const deployer = await runner.signer.getAddress();
     const amount = hre.ethers.utils.parseEther(args.amount);
 
     const { get } = hre.deployments;
 
     const stakingPoolDeployment = await get('StakingPoolV2');
 
-    const stakingPool = (await hre.ethers.getContractAt(
-      stakingPoolDeployment.abi,
-      stakingPoolDeployment.address
-    )) as StakingPoolV2;
+    const stakingPool = StakingPoolV2__factory.connect(
+      stakingPoolDeployment.address,
+      runner.provider
+    );
 
-    const stakingAsset = await getStakingAsset(hre);
+    const stakingAsset = (await getStakingAsset(hre)).connect(runner.provider);
 
-    if ((await stakingAsset.balanceOf(deployer.address)).lt(amount)) {
-      const faucetTx = await stakingAsset.connect(deployer).faucet();
-      await faucetTx.wait();
-      console.log(`Account took faucet`);
-    }
+    await runner.run(async () => {
+      if ((await stakingAsset.balanceOf(deployer)).lt(amount)) {
+        await runner.send(stakingAsset, 'faucet');
+        console.log(`Account took faucet`);
+      }
 
-    if ((await stakingAsset.allowance(deployer.address, stakingPool.address)).lt(amount)) {
-      const approveTx = await stakingAsset.connect(deployer).approve(stakingPool.address, amount);
-      await approveTx.wait();
-      console.log(`Account approved`);
-    }
+      if ((await stakingAsset.allowance(deployer, stakingPool.address)).lt(amount)) {
+        await runner.send(stakingAsset, 'approve', [stakingPool.address, amount]);
+        console.log(`Account approved`);
+      }
 
-    const stakeTx = await stakingPool.connect(deployer).stake(amount);
-    await stakeTx.wait();
+      await runner.send(stakingPool, 'stake', [amount]);
 
-    console.log(`Stake amount ${args.amount} success `);
+      console.log(`Stake amount ${args.amount} success `);
+    });
   });
 
-task('testnet:withdraw', 'Unstake asset')
+withRunnerParams(task('testnet:withdraw', 'Unstake asset'))
   .addParam('amount', 'The amount to withdraw')
   .setAction(async (args: Args, hre: HardhatRuntimeEnvironment) => {
-    let stakingPool: StakingPoolV2;
-    const [deployer] = await hre.ethers.getSigners();
+    const runner = await createTaskRunner(hre, args);
 
-    stakingPool = await getStakingPool(hre);
+    const stakingPool = StakingPoolV2__factory.connect(
+      (await hre.deployments.get('StakingPoolV2')).address,
+      runner.provider
+    );
 
-    const rewardAsset = await getDai(hre);
-
-    await rewardAsset
-      .connect(deployer)
-      .transfer(stakingPool.address, hre.ethers.utils.parseEther('10000000'));
+    const rewardAsset = (await getDai(hre)).connect(runner.provider);
 
     const amount = hre.ethers.utils.parseEther(args.amount);
 
-    const withdrawTx = await stakingPool.connect(deployer).withdraw(amount);
-    await withdrawTx.wait();
+    await runner.run(async () => {
+      await runner.send(rewardAsset, 'transfer', [
+        stakingPool.address,
+        hre.ethers.utils.parseEther('10000000'),
+      ]);
+
+      await runner.send(stakingPool, 'withdraw', [amount]);
 
-    console.log(`Withdraw amount ${args.amount} success `);
+      console.log(`Withdraw amount ${args.amount} success `);
+    });
   });
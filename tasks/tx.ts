@@ -0,0 +1,75 @@
+import { utils, Wallet } from 'ethers';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { readOfflineBatch, writeOfflineBatch } from './utils/offline';
+
+interface SignArgs {
+  file: string;
+  out: string;
+  keyEnv: string;
+}
+
+interface BroadcastArgs {
+  file: string;
+}
+
+// Needs no network, run it on the air-gapped machine with the default hardhat network
+task('tx:sign', 'Sign the transactions written by a task run with --unsigned')
+  .addParam('file', 'The unsigned transactions')
+  .addParam('out', 'The file to write the signed transactions to')
+  .addOptionalParam('keyEnv', 'The environment variable holding the private key', 'ADMIN')
+  .setAction(async (args: SignArgs) => {
+    const key = process.env[args.keyEnv];
+    if (key === undefined || key === '') {
+      throw new Error(`${args.keyEnv} is not set`);
+    }
+    const wallet = new Wallet(key);
+    const batch = readOfflineBatch(args.file);
+    if (wallet.address.toLowerCase() !== batch.from.toLowerCase()) {
+      throw new Error(`The transactions are from ${batch.from}, the key is ${wallet.address}`);
+    }
+
+    for (const transaction of batch.transactions) {
+      if (transaction.tx.chainId !== batch.chainId) {
+        throw new Error(`${transaction.description} is not for chain ${batch.chainId}`);
+      }
+      transaction.signed = await wallet.signTransaction(transaction.tx);
+      transaction.hash = utils.keccak256(transaction.signed);
+      console.log(`signed ${transaction.description} nonce ${transaction.tx.nonce}`);
+    }
+
+    writeOfflineBatch(args.out, batch);
+    console.log(`${batch.transactions.length} transactions for ${batch.network} -> ${args.out}`);
+  });
+
+task('tx:broadcast', 'Send the transactions signed by tx:sign in order and wait for the receipts')
+  .addParam('file', 'The signed transactions')
+  .setAction(async (args: BroadcastArgs, hre: HardhatRuntimeEnvironment) => {
+    const provider = hre.ethers.provider;
+    const batch = readOfflineBatch(args.file);
+    const { chainId } = await provider.getNetwork();
+    if (chainId !== batch.chainId) {
+      throw new Error(`The transactions are for chain ${batch.chainId}, not ${chainId}`);
+    }
+
+    for (const transaction of batch.transactions) {
+      if (transaction.signed === undefined || transaction.hash === undefined) {
+        throw new Error(`${transaction.description} is not signed, run tx:sign first`);
+      }
+
+      // a previous broadcast may have stopped after sending some of the batch
+      if ((await provider.getTransactionReceipt(transaction.hash)) !== null) {
+        console.log(`${transaction.description}: already mined ${transaction.hash}`);
+        continue;
+      }
+
+      const response = await provider.sendTransaction(transaction.signed);
+      console.log(`${transaction.description}: ${response.hash}`);
+      try {
+        const receipt = await response.wait();
+        console.log(`  mined in block ${receipt.blockNumber}, gas used ${receipt.gasUsed}`);
+      } catch (e) {
+        throw new Error(`${transaction.description} reverted in ${response.hash}, stopping`);
+      }
+    }
+  });
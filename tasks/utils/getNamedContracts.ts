@@ -1,31 +1,33 @@
 import { ethers } from 'ethers';
 import { ERC20__factory, StakingPoolV2__factory } from '../../typechain';
+import { getNetworkName, getRegistry } from '../../utils/registry';
+
+// Contracts of the provider's network. Pass the network for forks, whose chain id is the local one.
+// Each contract is resolved when it is first used, so a missing entry only fails the tasks that need it.
+export const getNamedContracts = async (
+  provider: ethers.providers.JsonRpcProvider,
+  network?: string
+) => {
+  const registry = getRegistry(network || getNetworkName((await provider.getNetwork()).chainId));
 
-export const getNamedContracts = (provider: ethers.providers.JsonRpcProvider) => {
   return {
-    elfiV2StakingPool: StakingPoolV2__factory.connect(
-      "0xCD668B44C7Cf3B63722D5cE5F655De68dD8f2750",
-      provider,
-    ),
-    elToken: ERC20__factory.connect(
-      "0x2781246fe707bB15CeE3e5ea354e2154a2877B16",
-      provider
-    ),
-    elfiToken: ERC20__factory.connect(
-      "0x4dA34f8264CB33A5c9F17081B9EF5Ff6091116f4",
-      provider
-    ),
-    daiToken: ERC20__factory.connect(
-      "0x6B175474E89094C44Da98b954EedeAC495271d0F",
-      provider
-    ),
-    usdtToken: ERC20__factory.connect(
-      "0xdAC17F958D2ee523a2206206994597C13D831ec7",
-      provider
-    ),
-    wethToken: ERC20__factory.connect(
-      "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2",
-      provider
-    ),
-  }
-}
+    get elfiV2StakingPool() {
+      return StakingPoolV2__factory.connect(registry.getContract('elfiV2StakingPool'), provider);
+    },
+    get elToken() {
+      return ERC20__factory.connect(registry.getToken('EL'), provider);
+    },
+    get elfiToken() {
+      return ERC20__factory.connect(registry.getToken('ELFI'), provider);
+    },
+    get daiToken() {
+      return ERC20__factory.connect(registry.getToken('DAI'), provider);
+    },
+    get usdtToken() {
+      return ERC20__factory.connect(registry.getToken('USDT'), provider);
+    },
+    get wethToken() {
+      return ERC20__factory.connect(registry.getToken('WETH'), provider);
+    },
+  };
+};
@@ -0,0 +1,11 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+export const POOL_PREFIX = 'StakingPoolV2_';
+
+// Every StakingPoolV2_* deployment in deployments/<network>
+export const getPoolDeployments = async (hre: HardhatRuntimeEnvironment) => {
+  const deployments = await hre.deployments.all();
+  return Object.keys(deployments)
+    .filter((name) => name.startsWith(POOL_PREFIX))
+    .map((name) => ({ name, deployment: deployments[name] }));
+};
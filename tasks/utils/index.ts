@@ -1,2 +1,3 @@
 export { getNamedContracts } from './getNamedContracts';
-export { getNamedSigners } from './getNamedSigners';
\ No newline at end of file
+export { getNamedSigners } from './getNamedSigners';
+export { getPoolDeployments, POOL_PREFIX } from './getPoolDeployments';
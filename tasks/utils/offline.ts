@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, providers } from 'ethers';
+
+export interface OfflineTransaction {
+  // A readable summary of the call, e.g. StakingPoolV2_ELFI.closePool()
+  description: string;
+  // Quantities are hex strings so the file survives JSON round trips
+  tx: providers.TransactionRequest;
+  // The gas estimated when the file was written, tx.gasLimit unless --gas-limit overrides it.
+  // Unset when the call could not be estimated, e.g. as it depends on an earlier transaction.
+  estimatedGas?: string;
+  // Set by tx:sign
+  signed?: string;
+  hash?: string;
+}
+
+export interface OfflineBatch {
+  network: string;
+  chainId: number;
+  from: string;
+  transactions: OfflineTransaction[];
+}
+
+const toHex = (tx: providers.TransactionRequest): providers.TransactionRequest => {
+  const hex: { [key: string]: unknown } = {};
+  Object.keys(tx).forEach((key) => {
+    const value = tx[key as keyof providers.TransactionRequest];
+    if (value === undefined) return;
+    hex[key] = BigNumber.isBigNumber(value) ? value.toHexString() : value;
+  });
+  return hex as providers.TransactionRequest;
+};
+
+// Fills in nonce, gas and fees from the provider so the transaction can be signed without one.
+// The gas is estimated for every call. A gasLimit overrides the estimate, and is the only gas of
+// calls that depend on earlier unsent transactions, whose estimation fails.
+export const buildUnsignedTransaction = async (
+  provider: providers.Provider,
+  from: string,
+  nonce: number,
+  request: { to: string; data: string; gasLimit?: string }
+): Promise<Pick<OfflineTransaction, 'tx' | 'estimatedGas'>> => {
+  const { chainId } = await provider.getNetwork();
+  let estimatedGas: BigNumber | undefined;
+  try {
+    estimatedGas = await provider.estimateGas({ from, to: request.to, data: request.data });
+  } catch (e) {
+    if (request.gasLimit === undefined) throw e;
+  }
+  const feeData = await provider.getFeeData();
+
+  const tx: providers.TransactionRequest = {
+    to: request.to,
+    data: request.data,
+    value: 0,
+    nonce,
+    gasLimit: request.gasLimit !== undefined ? BigNumber.from(request.gasLimit) : estimatedGas,
+    chainId,
+  };
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    tx.type = 2;
+    tx.maxFeePerGas = feeData.maxFeePerGas;
+    tx.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas;
+  } else {
+    tx.gasPrice = feeData.gasPrice || undefined;
+  }
+  return { tx: toHex(tx), estimatedGas: estimatedGas && estimatedGas.toHexString() };
+};
+
+export const readOfflineBatch = (file: string): OfflineBatch =>
+  JSON.parse(fs.readFileSync(file, 'utf8'));
+
+export const writeOfflineBatch = (file: string, batch: OfflineBatch) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(batch, null, 2));
+};
@@ -0,0 +1,288 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, Contract, ContractReceipt, providers, utils } from 'ethers';
+import { createProvider } from 'hardhat/internal/core/providers/construction';
+import {
+  ConfigurableTaskDefinition,
+  HardhatNetworkConfig,
+  HardhatRuntimeEnvironment,
+  HttpNetworkConfig,
+} from 'hardhat/types';
+import { StakingPoolV2__factory } from '../../typechain';
+import { describeError, parseRevert } from '../../sdk/errors';
+import { buildUnsignedTransaction, OfflineTransaction, writeOfflineBatch } from './offline';
+
+export interface RunnerArgs {
+  dryRun: boolean;
+  forkUrl?: string;
+  forkBlock?: string;
+  safeBatch?: string;
+  safe?: string;
+  unsigned?: string;
+  from?: string;
+  gasLimit?: string;
+}
+
+export interface TaskRunner {
+  dryRun: boolean;
+  // The file the Safe Transaction Builder batch is written to instead of sending
+  safeBatch?: string;
+  // The file the unsigned transactions are written to instead of sending
+  unsigned?: string;
+  provider: providers.JsonRpcProvider;
+  // The Safe or the offline signer in those modes, so reads like allowances are made for the
+  // account that will send
+  signer: providers.JsonRpcSigner;
+  // Sends `contract.method(...args)` from the signer and waits for the receipt.
+  // In batch and unsigned mode the call is only encoded and there is no receipt.
+  send: (
+    contract: Contract,
+    method: string,
+    args?: unknown[]
+  ) => Promise<ContractReceipt | undefined>;
+  // Runs the task body. In dry-run mode the touched pools are printed before their first call and
+  // after the body, also after a revert, which is rethrown.
+  // In batch and unsigned mode the file is written once the body succeeded.
+  run: (action: () => Promise<void>) => Promise<void>;
+}
+
+// A transaction of the Safe Transaction Builder JSON format, sent as raw data
+interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: null;
+  contractInputsValues: null;
+}
+
+// Adds the parameters every admin task shares
+export const withRunnerParams = (definition: ConfigurableTaskDefinition) =>
+  definition
+    .addFlag(
+      'dryRun',
+      'Rehearse on an in-process fork of the network instead of sending transactions'
+    )
+    .addOptionalParam('forkUrl', 'The RPC to fork in dry-run mode, defaults to the network url')
+    .addOptionalParam('forkBlock', 'The block to fork in dry-run mode, defaults to a recent one')
+    .addOptionalParam('safeBatch', 'Write a Safe Transaction Builder batch to this file instead')
+    .addOptionalParam('safe', 'The Safe that executes the batch, required with --safe-batch')
+    .addOptionalParam('unsigned', 'Write unsigned transactions for tx:sign to this file instead')
+    .addOptionalParam('from', 'The offline signer, required with --unsigned')
+    .addOptionalParam(
+      'gasLimit',
+      'Overrides the estimated gas limit of every unsigned transaction, and is the gas limit of ' +
+        'those that cannot be estimated'
+    );
+
+const formatValue = (value: unknown): string => {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  return String(value);
+};
+
+// Decodes custom errors such as Closed() or NotEnoughPrincipal(principal)
+export const decodeRevert = (error: unknown, iface: utils.Interface): string => {
+  const revert = parseRevert(error, iface);
+  if (revert === undefined) return describeError(error);
+  return `${revert.name}(${revert.args.map(formatValue).join(', ')})`;
+};
+
+// Forks the network into a Hardhat network of this process, so nothing the task sends reaches the
+// network. The deployments of the network are there as the fork reads its state.
+const createForkProvider = (hre: HardhatRuntimeEnvironment, args: RunnerArgs) => {
+  const url = args.forkUrl || (hre.network.config as HttpNetworkConfig).url;
+  if (url === undefined) {
+    throw new Error(`Network ${hre.network.name} has no url to fork, pass --fork-url`);
+  }
+  let blockNumber: number | undefined;
+  if (args.forkBlock !== undefined) {
+    blockNumber = Number(args.forkBlock);
+    if (!Number.isInteger(blockNumber) || blockNumber < 0) {
+      throw new Error(`--fork-block must be a block number, got ${args.forkBlock}`);
+    }
+  }
+
+  const config: HardhatNetworkConfig = {
+    ...hre.config.networks.hardhat,
+    forking: { url, enabled: true, blockNumber },
+  };
+  const fork = createProvider('hardhat', config, hre.config.paths, hre.artifacts);
+  return new providers.Web3Provider((method, params) => fork.send(method, params));
+};
+
+export const createTaskRunner = async (
+  hre: HardhatRuntimeEnvironment,
+  args: RunnerArgs
+): Promise<TaskRunner> => {
+  const modes = [args.dryRun, args.safeBatch !== undefined, args.unsigned !== undefined];
+  if (modes.filter((mode) => mode).length > 1) {
+    throw new Error('--dry-run, --safe-batch and --unsigned cannot be combined');
+  }
+  if (args.safeBatch !== undefined && args.safe === undefined) {
+    throw new Error('--safe-batch needs --safe');
+  }
+  if (args.unsigned !== undefined && args.from === undefined) {
+    throw new Error('--unsigned needs --from');
+  }
+
+  const { deployer } = await hre.getNamedAccounts();
+  const deployments = await hre.deployments.all();
+  const names: { [address: string]: string } = {};
+  Object.keys(deployments).forEach((name) => {
+    names[deployments[name].address.toLowerCase()] = name;
+  });
+  const nameOf = (address: string) => names[address.toLowerCase()] || address;
+
+  let provider: providers.JsonRpcProvider = hre.ethers.provider;
+  if (args.dryRun) {
+    provider = createForkProvider(hre, args);
+    await provider.send('hardhat_impersonateAccount', [deployer]);
+    await provider.send('hardhat_setBalance', [deployer, utils.hexValue(utils.parseEther('100'))]);
+    console.log(`[dry-run] forked ${hre.network.name} as ${deployer}`);
+  }
+  const signer = provider.getSigner(args.safe || args.from || deployer);
+  const touchedPools = new Set<string>();
+  const batch: SafeBatchTransaction[] = [];
+  const offline: OfflineTransaction[] = [];
+  const nonce = args.unsigned !== undefined ? await provider.getTransactionCount(args.from!) : 0;
+  const summaries: string[] = [];
+
+  const printPoolData = async (address: string, label: string) => {
+    const poolData = await StakingPoolV2__factory.connect(address, provider).getPoolData();
+    console.log(`[dry-run] ${nameOf(address)}.getPoolData() ${label}`);
+    console.log(
+      `  rewardPerSecond ${poolData.rewardPerSecond}, rewardIndex ${poolData.rewardIndex}, ` +
+        `startTimestamp ${poolData.startTimestamp}, endTimestamp ${poolData.endTimestamp}, ` +
+        `totalPrincipal ${poolData.totalPrincipal}, lastUpdateTimestamp ${poolData.lastUpdateTimestamp}`
+    );
+  };
+
+  const send = async (contract: Contract, method: string, params: unknown[] = []) => {
+    const call = `${nameOf(contract.address)}.${method}(${params.map(formatValue).join(', ')})`;
+    if (
+      contract.interface.functions['getPoolData()'] !== undefined &&
+      !touchedPools.has(contract.address)
+    ) {
+      touchedPools.add(contract.address);
+      if (args.dryRun) await printPoolData(contract.address, 'before');
+    }
+
+    if (args.safeBatch !== undefined) {
+      batch.push({
+        to: contract.address,
+        value: '0',
+        data: contract.interface.encodeFunctionData(method, params),
+        contractMethod: null,
+        contractInputsValues: null,
+      });
+      summaries.push(`${batch.length}. ${call}`);
+      console.log(`[safe-batch] ${call}`);
+      return undefined;
+    }
+
+    if (args.unsigned !== undefined) {
+      const to = contract.address;
+      const data = contract.interface.encodeFunctionData(method, params);
+      let built: Pick<OfflineTransaction, 'tx' | 'estimatedGas'>;
+      try {
+        built = await buildUnsignedTransaction(provider, args.from!, nonce + offline.length, {
+          to,
+          data,
+          gasLimit: args.gasLimit,
+        });
+      } catch (e) {
+        throw new Error(
+          `${call} fails gas estimation with ${decodeRevert(e, contract.interface)}, ` +
+            'pass --gas-limit if it depends on an earlier transaction of the task'
+        );
+      }
+      const { tx, estimatedGas } = built;
+      if (estimatedGas !== undefined && BigNumber.from(estimatedGas).gt(tx.gasLimit!)) {
+        throw new Error(
+          `${call} is estimated at ${BigNumber.from(estimatedGas)} gas, above --gas-limit`
+        );
+      }
+      offline.push({ description: call, tx, estimatedGas });
+      console.log(
+        `[unsigned] ${call} nonce ${tx.nonce} gas ${BigNumber.from(tx.gasLimit)}` +
+          `${estimatedGas === undefined ? ' from --gas-limit, not estimated' : ''}`
+      );
+      return undefined;
+    }
+
+    if (!args.dryRun) {
+      const tx = await contract.connect(signer)[method](...params);
+      console.log(`${call}: ${tx.hash}`);
+      return await tx.wait();
+    }
+
+    let receipt: ContractReceipt;
+    try {
+      const tx = await contract.connect(signer)[method](...params);
+      receipt = await tx.wait();
+    } catch (e) {
+      throw new Error(`[dry-run] ${call} reverted with ${decodeRevert(e, contract.interface)}`);
+    }
+
+    console.log(`[dry-run] ${call}`);
+    receipt.logs.forEach((log) => {
+      try {
+        const event = contract.interface.parseLog(log);
+        console.log(`  emit ${event.name}(${event.args.map(formatValue).join(', ')})`);
+      } catch (e) {
+        // events of other contracts, e.g. the token Transfer
+      }
+    });
+    return receipt;
+  };
+
+  const writeBatch = async (file: string) => {
+    const { chainId } = await provider.getNetwork();
+    const json = {
+      version: '1.0',
+      chainId: chainId.toString(),
+      createdAt: Date.now(),
+      meta: {
+        name: path.basename(file, '.json'),
+        description: summaries.join('\n'),
+        createdFromSafeAddress: args.safe,
+      },
+      transactions: batch,
+    };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(json, null, 2));
+    console.log(`[safe-batch] ${batch.length} transactions for ${args.safe} written to ${file}`);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      if (args.safeBatch !== undefined) await writeBatch(args.safeBatch);
+      if (args.unsigned !== undefined) {
+        writeOfflineBatch(args.unsigned, {
+          network: hre.network.name,
+          chainId: (await provider.getNetwork()).chainId,
+          from: args.from!,
+          transactions: offline,
+        });
+        console.log(`[unsigned] ${offline.length} transactions written to ${args.unsigned}`);
+      }
+    } finally {
+      if (args.dryRun) {
+        for (const address of Array.from(touchedPools)) {
+          await printPoolData(address, 'after');
+        }
+      }
+    }
+  };
+
+  return {
+    dryRun: args.dryRun,
+    safeBatch: args.safeBatch,
+    unsigned: args.unsigned,
+    provider,
+    signer,
+    send,
+    run,
+  };
+};
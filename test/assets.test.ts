@@ -0,0 +1,109 @@
+import { expect } from 'chai';
+import hre, { ethers, waffle } from 'hardhat';
+import { Network } from '../data/types/Network';
+import { StakingAsset, StakingAsset__factory } from '../typechain';
+import { validateAsset } from '../utils/assets';
+import { TOKENS } from '../utils/registry';
+import { setERC20Metadata } from './utils/testEnv';
+
+const { loadFixture } = waffle;
+
+describe('assets:validate', () => {
+  let token: StakingAsset;
+  let library: string;
+  let logs: string[];
+
+  const provider = waffle.provider;
+  const [, alice] = provider.getWallets();
+
+  // A token with the metadata of ELFI, and a library that has none of the ERC20 views
+  async function fixture() {
+    const factory = (await ethers.getContractFactory('StakingAsset')) as StakingAsset__factory;
+    return {
+      token: await factory.deploy('ELYFI', 'ELFI'),
+      library: (await setERC20Metadata()).address,
+    };
+  }
+
+  // Runs the task against the assets listed for the hardhat network and keeps what it printed
+  const validateAssets = async (assets: { ELFI: string; EL?: string }) => {
+    TOKENS.ELFI[Network.hardhat] = { address: assets.ELFI, decimals: 18, symbol: 'ELFI' };
+    if (assets.EL !== undefined) {
+      TOKENS.EL[Network.hardhat] = { address: assets.EL, decimals: 18, symbol: 'EL' };
+    }
+    const log = console.log;
+    logs = [];
+    console.log = (...messages: unknown[]) => logs.push(messages.join(' '));
+    try {
+      await hre.run('assets:validate');
+    } finally {
+      console.log = log;
+    }
+  };
+
+  beforeEach(async () => {
+    ({ token, library } = await loadFixture(fixture));
+  });
+
+  afterEach(() => {
+    delete TOKENS.ELFI[Network.hardhat];
+    delete TOKENS.EL[Network.hardhat];
+  });
+
+  describe('validateAsset', () => {
+    it('passes an ERC20 with the listed metadata', async () => {
+      expect(
+        await validateAsset(provider, {
+          name: 'ELFI',
+          address: token.address,
+          decimals: 18,
+          symbol: 'ELFI',
+        })
+      ).to.eql([]);
+      // the metadata of tokens only deployed is not known
+      expect(await validateAsset(provider, { name: 'ELFI', address: token.address })).to.eql([]);
+    });
+
+    it('reports the decimals and symbol that differ from the listing', async () => {
+      expect(
+        await validateAsset(provider, {
+          name: 'EL',
+          address: token.address,
+          decimals: 6,
+          symbol: 'EL',
+        })
+      ).to.eql(['decimals() is 18, data/assets says 6', 'symbol() is ELFI, data/assets says EL']);
+    });
+
+    it('reports an address that is not an ERC20', async () => {
+      expect(await validateAsset(provider, { name: 'EL', address: library })).to.eql([
+        'totalSupply() reverted',
+        'balanceOf(address) reverted',
+        'allowance(address,address) reverted',
+        'decimals() reverted',
+        'symbol() reverted',
+      ]);
+      expect(await validateAsset(provider, { name: 'EL', address: alice.address })).to.eql([
+        'no contract at the address',
+      ]);
+    });
+  });
+
+  it('validates every asset registered for the network', async () => {
+    await validateAssets({ ELFI: token.address });
+
+    expect(logs).to.eql([`ELFI ${token.address}: ok`]);
+  });
+
+  it('fails after reporting every asset when one is invalid', async () => {
+    try {
+      await validateAssets({ ELFI: token.address, EL: library });
+      expect.fail('expected assets:validate to fail');
+    } catch (e) {
+      expect((e as Error).message).to.equal('1 of 2 assets on hardhat are invalid');
+    }
+    expect(logs).to.have.length(2);
+    expect(logs[0]).to.match(new RegExp(`^EL ${library}: totalSupply\\(\\) reverted, `));
+    expect(logs[1]).to.equal(`ELFI ${token.address}: ok`);
+  });
+});
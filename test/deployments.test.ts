@@ -0,0 +1,193 @@
+import { expect } from 'chai';
+import { providers } from 'ethers';
+import { artifacts, ethers, network, waffle } from 'hardhat';
+import { Artifact } from 'hardhat/types';
+import { StakingAsset, StakingPoolV2 } from '../typechain';
+import {
+  DeploymentRecord,
+  getDeploymentBlock,
+  linkBytecode,
+  PoolExpectation,
+  verifyPoolDeployment,
+} from '../utils/deployments';
+import { setERC20Metadata } from './utils/testEnv';
+
+const { loadFixture } = waffle;
+
+describe('deployments:verify', () => {
+  const provider = waffle.provider;
+  const [deployer, alice, bob] = provider.getWallets();
+
+  let artifact: Artifact;
+  let record: DeploymentRecord;
+  let stakingPool: StakingPoolV2;
+  let expectation: PoolExpectation;
+
+  async function fixture() {
+    const artifact = await artifacts.readArtifact('StakingPoolV2');
+    const erc20Metadata = await setERC20Metadata();
+    const stakingAssetFactory = await ethers.getContractFactory('StakingAsset');
+    const stakingAsset = (await stakingAssetFactory.deploy('Staking', 'STAKING')) as StakingAsset;
+    const rewardAsset = (await stakingAssetFactory.deploy('Reward', 'REWARD')) as StakingAsset;
+
+    const libraries = { ERC20Metadata: erc20Metadata.address };
+    const stakingPoolFactory = await ethers.getContractFactory('StakingPoolV2', { libraries });
+    const stakingPool = (await stakingPoolFactory.deploy(
+      stakingAsset.address,
+      rewardAsset.address
+    )) as StakingPoolV2;
+    const receipt = await stakingPool.deployTransaction.wait();
+
+    // what hardhat-deploy writes to deployments/<network>/<name>.json
+    const record: DeploymentRecord = {
+      address: stakingPool.address,
+      args: [stakingAsset.address, rewardAsset.address],
+      transactionHash: receipt.transactionHash,
+      receipt: { blockNumber: receipt.blockNumber },
+      bytecode: linkBytecode(artifact.bytecode, artifact.linkReferences, libraries),
+      deployedBytecode: artifact.deployedBytecode,
+      solcInputHash: 'recorded',
+      libraries,
+    };
+    const expectation: PoolExpectation = {
+      stakingAsset: stakingAsset.address,
+      rewardAsset: rewardAsset.address,
+      libraries,
+      owner: deployer.address,
+      managers: [],
+    };
+    return { artifact, record, stakingPool, expectation };
+  }
+
+  beforeEach(async () => {
+    ({ artifact, record, stakingPool, expectation } = await loadFixture(fixture));
+  });
+
+  it('verifies a deployment that matches the chain and the expectation', async () => {
+    const check = await verifyPoolDeployment(provider, record, artifact, expectation);
+
+    expect(check).to.eql({ owner: deployer.address, problems: [], notes: [] });
+  });
+
+  it('notes a pool compiled from an older source', async () => {
+    const olderArtifact = await artifacts.readArtifact('ERC20Metadata');
+    const check = await verifyPoolDeployment(
+      provider,
+      record,
+      { ...artifact, bytecode: olderArtifact.bytecode, deployedBytecode: olderArtifact.bytecode },
+      expectation
+    );
+
+    expect(check.problems).to.be.empty;
+    expect(check.notes).to.eql([
+      'runs the StakingPoolV2 recorded with solcInputHash recorded, not the current source',
+    ]);
+  });
+
+  it('reports a record whose args and library are not the deployed ones', async () => {
+    const check = await verifyPoolDeployment(
+      provider,
+      { ...record, args: [record.args[0], alice.address] },
+      artifact,
+      { ...expectation, libraries: { ERC20Metadata: bob.address } }
+    );
+
+    expect(check.problems).to.eql([
+      `ERC20Metadata is linked to ${record.libraries!.ERC20Metadata}, expected ${bob.address}`,
+      'creation transaction differs from the bytecode with the recorded libraries and args',
+      `rewardAsset() is ${expectation.rewardAsset}, the recorded constructor arg is ${alice.address}`,
+    ]);
+  });
+
+  it('reports a record whose address is another contract', async () => {
+    const other = await setERC20Metadata();
+    const check = await verifyPoolDeployment(
+      provider,
+      { ...record, address: other.address },
+      artifact,
+      expectation
+    );
+
+    expect(check.problems).to.eql([
+      `creation transaction created ${stakingPool.address}, not ${other.address}`,
+      'runtime bytecode differs from the compiled and the recorded StakingPoolV2',
+    ]);
+  });
+
+  it('reports assets that disagree with the registry', async () => {
+    const check = await verifyPoolDeployment(provider, record, artifact, {
+      ...expectation,
+      stakingAsset: alice.address,
+    });
+
+    expect(check.problems).to.eql([
+      `stakingAsset() is ${record.args[0]}, the registry says ${alice.address}`,
+      `underlying() is ${record.args[0]}, the registry says ${alice.address}`,
+    ]);
+  });
+
+  it('reports the owner and managers that differ from the expectation', async () => {
+    await stakingPool.connect(deployer).setManager(bob.address);
+
+    const check = await verifyPoolDeployment(provider, record, artifact, {
+      ...expectation,
+      owner: alice.address,
+      managers: [alice.address],
+    });
+
+    expect(check.problems).to.eql([
+      `owner is ${deployer.address}, expected ${alice.address}`,
+      `${alice.address} is not a manager`,
+      `${bob.address} is an unexpected manager`,
+    ]);
+  });
+
+  it('notes the owner and managers it has no expectation for', async () => {
+    await stakingPool.connect(deployer).setManager(bob.address);
+
+    const check = await verifyPoolDeployment(provider, record, artifact, {
+      ...expectation,
+      owner: undefined,
+      managers: undefined,
+    });
+
+    expect(check.problems).to.be.empty;
+    expect(check.notes).to.eql([
+      `the owner ${deployer.address} is not checked as none is expected`,
+      `the managers are not checked as none are expected: ${bob.address}`,
+    ]);
+  });
+
+  it('reports a creation transaction without a receipt', async () => {
+    // a node that knows the transaction but has not mined it. ethers never lets the block number
+    // of a provider go back, as it does after the fixture reverts, so it is a new one.
+    const pending = Object.assign(
+      new providers.Web3Provider((method, params) => network.provider.send(method, params)),
+      { getTransactionReceipt: async () => null }
+    );
+
+    const check = await verifyPoolDeployment(pending, record, artifact, expectation);
+
+    expect(check.problems).to.eql([
+      `creation transaction ${record.transactionHash} has no receipt`,
+    ]);
+  });
+
+  it('reports a missing contract', async () => {
+    const check = await verifyPoolDeployment(
+      provider,
+      { ...record, address: alice.address },
+      artifact,
+      expectation
+    );
+
+    expect(check.problems).to.eql([`no contract at ${alice.address}`]);
+  });
+
+  it('takes the deployment block from the receipt and fails without one', async () => {
+    expect(getDeploymentBlock('StakingPoolV2_TEST', record)).to.equal(record.receipt.blockNumber);
+    expect(() => getDeploymentBlock('StakingPoolV2_TEST', {})).to.throw(
+      'The StakingPoolV2_TEST deployment record has no receipt to scan its events from'
+    );
+  });
+});
@@ -0,0 +1,155 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import hre, { network, waffle } from 'hardhat';
+import { StakingPoolV2__factory } from '../typechain';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+interface JsonRpcRequest {
+  id: number;
+  jsonrpc: string;
+  method: string;
+  params: unknown[];
+}
+
+// Serves the test network over http for the fork and records the methods called on it
+const serveNetwork = async (methods: string[]) => {
+  const handle = async (request: JsonRpcRequest) => {
+    methods.push(request.method);
+    try {
+      const result = await network.provider.send(request.method, request.params);
+      return { jsonrpc: '2.0', id: request.id, result };
+    } catch (e) {
+      return { jsonrpc: '2.0', id: request.id, error: { code: -32000, message: String(e) } };
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      const request = JSON.parse(body);
+      const response = Array.isArray(request)
+        ? await Promise.all(request.map(handle))
+        : await handle(request);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(response));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+};
+
+describe('--dry-run', () => {
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+  let server: http.Server;
+  let forkUrl: string;
+  let logs: string[];
+  let methods: string[];
+
+  const provider = waffle.provider;
+  const [deployer, alice] = provider.getWallets();
+  const pool = 'StakingPoolV2_TEST';
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const startTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  // Runs the task on a fork of the test network and keeps what it printed in logs
+  const dryRun = async (task: string, args: { [name: string]: unknown }) => {
+    const log = console.log;
+    logs = [];
+    console.log = (...messages: unknown[]) => logs.push(messages.join(' '));
+    try {
+      // hardhat forks blocks behind the latest of an unknown chain, the test network has not as many
+      const forkBlock = (await provider.getBlock('latest')).number.toString();
+      await hre.run(task, { pool, dryRun: true, forkUrl, forkBlock, ...args });
+    } finally {
+      console.log = log;
+    }
+  };
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await hre.deployments.save(pool, {
+      abi: StakingPoolV2__factory.abi,
+      address: testEnv.stakingPool.address,
+      receipt: await testEnv.stakingPool.deployTransaction.wait(),
+    });
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+    await resetTimestampTo(startTimestamp);
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await actions.stake(alice, utils.parseEther('10'));
+    await advanceTimeTo(startTimestamp + SECONDSPERDAY);
+
+    methods = [];
+    server = await serveNetwork(methods);
+    forkUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('closes the pool on the fork and reports the pool before and after', async () => {
+    const before = await testEnv.stakingPool.getPoolData();
+    const blockNumber = (await provider.getBlock('latest')).number;
+
+    await dryRun('pool:close', {});
+
+    const reports = logs.filter((line) => line.startsWith(`[dry-run] ${pool}.getPoolData()`));
+    expect(reports).to.eql([
+      `[dry-run] ${pool}.getPoolData() before`,
+      `[dry-run] ${pool}.getPoolData() after`,
+    ]);
+    const [beforeReport, afterReport] = reports.map((report) => logs[logs.indexOf(report) + 1]);
+    expect(beforeReport).to.include(`endTimestamp ${before.endTimestamp},`);
+    expect(afterReport).to.not.include(`endTimestamp ${before.endTimestamp},`);
+    expect(logs).to.include(`[dry-run] ${pool}.closePool()`);
+    expect(logs).to.include(`  emit ClosePool(${deployer.address}, true)`);
+
+    // the fork only read the test network
+    expect(methods).to.not.include('eth_sendTransaction');
+    expect(methods).to.not.include('eth_sendRawTransaction');
+    expect((await provider.getBlock('latest')).number).to.equal(blockNumber);
+    expect(await testEnv.stakingPool.getPoolData()).to.eql(before);
+  });
+
+  it('fails with the decoded revert after the report', async () => {
+    await actions.closePool(deployer);
+
+    try {
+      await dryRun('pool:close', {});
+      expect.fail('expected the dry-run to fail');
+    } catch (e) {
+      expect((e as Error).message).to.equal(`[dry-run] ${pool}.closePool() reverted with Closed()`);
+    }
+    expect(logs.filter((line) => line.startsWith(`[dry-run] ${pool}.getPoolData()`))).to.eql([
+      `[dry-run] ${pool}.getPoolData() before`,
+      `[dry-run] ${pool}.getPoolData() after`,
+    ]);
+  });
+
+  it('checks --fork-block', async () => {
+    try {
+      await dryRun('pool:close', { forkBlock: 'latest' });
+      expect.fail('expected --fork-block to be refused');
+    } catch (e) {
+      expect((e as Error).message).to.equal('--fork-block must be a block number, got latest');
+    }
+  });
+});
@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import hre, { waffle } from 'hardhat';
+import { StakingPoolV2__factory } from '../typechain';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+describe('pool:emergency', () => {
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+  let dir: string;
+  let logFile: string;
+
+  const provider = waffle.provider;
+  const [deployer, alice] = provider.getWallets();
+  const pool = 'StakingPoolV2_TEST';
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const startTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  // The messages of the incident log without their timestamps
+  const readLog = () =>
+    fs
+      .readFileSync(logFile, 'utf8')
+      .trimEnd()
+      .split('\n')
+      .map((line) => {
+        const [timestamp, ...message] = line.split(' ');
+        expect(new Date(timestamp).toISOString()).to.equal(timestamp);
+        return message.join(' ');
+      });
+
+  const emergency = (args: { close?: boolean; lift?: boolean } = {}) =>
+    hre.run('pool:emergency', { pool, yes: true, log: logFile, ...args });
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await hre.deployments.save(pool, {
+      abi: StakingPoolV2__factory.abi,
+      address: testEnv.stakingPool.address,
+      receipt: await testEnv.stakingPool.deployTransaction.wait(),
+    });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'emergency-test-'));
+    logFile = path.join(dir, 'incident.log');
+
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+    await resetTimestampTo(startTimestamp);
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await actions.stake(alice, utils.parseEther('10'));
+    await advanceTimeTo(startTimestamp + SECONDSPERDAY);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('logs the pool before and after the emergency and what users can still do', async () => {
+    await emergency();
+
+    const lines = readLog();
+    expect(lines).to.have.length(7);
+    expect(lines[0]).to.equal(`emergency on ${pool} by ${deployer.address}`);
+    expect(lines[1]).to.match(
+      /^before: rewardPerSecond 1000000000000000000, .*, totalPrincipal 10000000000000000000, /
+    );
+    expect(lines[2]).to.match(/^setEmergency\(true\): 0x[0-9a-f]{64}$/);
+    expect(lines[3]).to.match(/^after: rewardPerSecond 1000000000000000000, /);
+    expect(lines.slice(4)).to.eql([
+      'users: claim reverts with Emergency()',
+      'users: withdraw works',
+      'users: stake works',
+    ]);
+  });
+
+  it('appends the closing and the lift to the same log', async () => {
+    await emergency({ close: true });
+    await emergency({ lift: true });
+
+    const lines = readLog();
+    expect(lines[2]).to.match(/^setEmergency\(true\): 0x[0-9a-f]{64}$/);
+    expect(lines[3]).to.match(/^closePool\(\): 0x[0-9a-f]{64}$/);
+    expect(lines.slice(5, 8)).to.eql([
+      'users: claim reverts with Emergency()',
+      'users: withdraw works',
+      'users: stake reverts with Closed()',
+    ]);
+    expect(lines[8]).to.equal(`lifting the emergency of ${pool} by ${deployer.address}`);
+    expect(lines[10]).to.match(/^setEmergency\(false\): 0x[0-9a-f]{64}$/);
+    expect(lines.slice(12)).to.eql([
+      'users: claim works',
+      'users: withdraw works',
+      'users: stake reverts with Closed()',
+    ]);
+  });
+
+  it('logs the call that stopped the task', async () => {
+    await emergency({ close: true });
+
+    try {
+      await emergency({ close: true });
+      expect.fail('expected closing a closed pool to fail');
+    } catch (e) {
+      expect((e as Error).message).to.match(/Closed\(\)/);
+    }
+    const lines = readLog();
+    expect(lines[lines.length - 1]).to.match(/^stopped: .*Closed\(\)/);
+  });
+});
@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import { waffle } from 'hardhat';
+import { getPoolAccess } from '../utils/managers';
+import TestEnv from './types/TestEnv';
+import { setTestEnv } from './utils/testEnv';
+
+const { loadFixture } = waffle;
+
+describe('getPoolAccess', () => {
+  let testEnv: TestEnv;
+
+  const provider = waffle.provider;
+  const [deployer, alice, bob, carol] = provider.getWallets();
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  // getBlockNumber of ethers never goes back, as it does after the fixture reverts
+  const getAccess = async (toBlock?: number) =>
+    getPoolAccess(testEnv.stakingPool, 0, toBlock ?? (await provider.getBlock('latest')).number);
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+  });
+
+  it('replays the managers set and revoked by the owner', async () => {
+    const pool = testEnv.stakingPool.connect(deployer);
+    const aliceAdded = (await (await pool.setManager(alice.address)).wait()).blockNumber;
+    const bobAdded = (await (await pool.setManager(bob.address)).wait()).blockNumber;
+    await pool.revokeManager(bob.address);
+    await testEnv.stakingPool.connect(carol).renounceManager(carol.address);
+    const carolAdded = (await (await pool.setManager(carol.address)).wait()).blockNumber;
+    await testEnv.stakingPool.connect(carol).renounceManager(carol.address);
+
+    expect(await getAccess()).to.eql({
+      owner: deployer.address,
+      managers: [{ address: alice.address, addedAt: aliceAdded, confirmed: true }],
+    });
+    // as it was before bob was revoked
+    expect(await getAccess(bobAdded)).to.eql({
+      owner: deployer.address,
+      managers: [
+        { address: alice.address, addedAt: aliceAdded, confirmed: true },
+        { address: bob.address, addedAt: bobAdded, confirmed: true },
+      ],
+    });
+    expect((await getAccess(carolAdded)).managers.map((manager) => manager.address)).to.eql([
+      alice.address,
+      carol.address,
+    ]);
+  });
+
+  it('follows ownership transfers, as owners are managers without an event', async () => {
+    await testEnv.stakingPool.connect(deployer).setManager(alice.address);
+    await testEnv.stakingPool.connect(deployer).transferOwnership(alice.address);
+
+    expect(await getAccess()).to.eql({ owner: alice.address, managers: [] });
+    expect(await testEnv.stakingPool.isManager(deployer.address)).to.be.false;
+
+    await testEnv.stakingPool.connect(alice).setManager(bob.address);
+    await testEnv.stakingPool.connect(alice).transferOwnership(carol.address);
+
+    const access = await getAccess();
+    expect(access.owner).to.equal(carol.address);
+    expect(access.managers.map((manager) => manager.address)).to.eql([alice.address, bob.address]);
+    access.managers.forEach((manager) => expect(manager.confirmed).to.be.true);
+  });
+});
@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { ethers, waffle } from 'hardhat';
+import { MerkleDistributor, RewardAsset } from '../typechain';
+import { buildMerkleDistribution, MerkleDistribution } from '../utils/merkle';
+import { SECONDSPERDAY } from './utils/constants';
+import { advanceTime } from './utils/time';
+
+require('./utils/matchers.ts');
+
+describe('MerkleDistributor', () => {
+  const provider = waffle.provider;
+  const [deployer, alice, bob, carol] = provider.getWallets();
+
+  let token: RewardAsset;
+  let distributor: MerkleDistributor;
+  let distribution: MerkleDistribution;
+
+  const claimOf = (account: string) => {
+    const claim = distribution.claims[account];
+    return [claim.index, account, claim.amount, claim.proof] as const;
+  };
+
+  beforeEach(async () => {
+    const rewardAssetFactory = await ethers.getContractFactory('RewardAsset');
+    token = (await rewardAssetFactory.deploy()) as RewardAsset;
+
+    distribution = buildMerkleDistribution([
+      { account: alice.address, amount: utils.parseEther('100') },
+      { account: bob.address, amount: utils.parseEther('50') },
+      { account: carol.address, amount: utils.parseEther('25') },
+    ]);
+
+    const endTimestamp = (await provider.getBlock('latest')).timestamp + SECONDSPERDAY;
+    const distributorFactory = await ethers.getContractFactory('MerkleDistributor');
+    distributor = (await distributorFactory.deploy(
+      token.address,
+      distribution.merkleRoot,
+      endTimestamp
+    )) as MerkleDistributor;
+
+    await token.connect(deployer).transfer(distributor.address, distribution.tokenTotal);
+  });
+
+  describe('claim', () => {
+    it('transfers the amount of the leaf to the account', async () => {
+      await expect(distributor.connect(carol).claim(...claimOf(alice.address)))
+        .to.emit(distributor, 'Claimed')
+        .withArgs(0, alice.address, utils.parseEther('100'));
+
+      expect(await token.balanceOf(alice.address)).to.equal(utils.parseEther('100'));
+      expect(await distributor.isClaimed(0)).to.be.true;
+      expect(await distributor.isClaimed(1)).to.be.false;
+    });
+
+    it('pays every leaf of the tree', async () => {
+      for (const account of [alice.address, bob.address, carol.address]) {
+        await distributor.claim(...claimOf(account));
+      }
+
+      expect(await token.balanceOf(distributor.address)).to.equal(0);
+    });
+
+    it('reverts if the leaf is claimed twice', async () => {
+      await distributor.claim(...claimOf(bob.address));
+
+      await expect(distributor.claim(...claimOf(bob.address))).to.be.revertedWith('AlreadyClaimed');
+    });
+
+    it('reverts if the amount is not the one in the tree', async () => {
+      const [index, account, , proof] = claimOf(bob.address);
+
+      await expect(
+        distributor.claim(index, account, utils.parseEther('51'), proof)
+      ).to.be.revertedWith('InvalidProof');
+    });
+
+    it('reverts if the proof belongs to another account', async () => {
+      const [index, , amount, proof] = claimOf(bob.address);
+
+      await expect(distributor.claim(index, carol.address, amount, proof)).to.be.revertedWith(
+        'InvalidProof'
+      );
+    });
+
+    it('reverts after the campaign ended', async () => {
+      await advanceTime(SECONDSPERDAY);
+
+      await expect(distributor.claim(...claimOf(alice.address))).to.be.revertedWith('ClaimEnded');
+    });
+  });
+
+  describe('retrieveResidue', () => {
+    it('reverts before the campaign ended', async () => {
+      await expect(distributor.retrieveResidue()).to.be.revertedWith('ClaimNotEnded');
+    });
+
+    it('reverts if general account call', async () => {
+      await advanceTime(SECONDSPERDAY);
+
+      await expect(distributor.connect(alice).retrieveResidue()).to.be.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
+
+    it('transfers the unclaimed tokens to the owner', async () => {
+      await distributor.claim(...claimOf(alice.address));
+      await advanceTime(SECONDSPERDAY);
+
+      await expect(distributor.retrieveResidue())
+        .to.emit(distributor, 'RetrieveResidue')
+        .withArgs(deployer.address, utils.parseEther('75'));
+    });
+  });
+});
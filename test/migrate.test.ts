@@ -0,0 +1,275 @@
+import { expect } from 'chai';
+import { BigNumber, constants, utils } from 'ethers';
+import { ethers, waffle } from 'hardhat';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { expectDataAfterMigrate } from './utils/expect';
+import { createTestActions, getPoolData, getUserData, TestHelperActions } from './utils/helpers';
+import { setNextTestEnv, setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, getTimestamp, resetTimestampTo, toTimestamp } from './utils/time';
+import { StakingAsset } from '../typechain';
+
+const { loadFixture } = waffle;
+
+require('./utils/matchers.ts');
+
+describe('StakingPool.migrate', () => {
+  let testEnv: TestEnv;
+  let nextEnv: TestEnv;
+  let actions: TestHelperActions;
+  let nextActions: TestHelperActions;
+
+  const provider = waffle.provider;
+  const [deployer, alice, bob] = provider.getWallets();
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+
+  const firstTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+  // the next pool opens while the pool still runs, staking before the start reverts
+  const nextTimestamp = firstTimestamp + SECONDSPERDAY;
+  const stakeAmount = utils.parseEther('10');
+
+  async function fixture() {
+    const testEnv = await setTestEnv();
+    return { testEnv, nextEnv: await setNextTestEnv(testEnv) };
+  }
+
+  beforeEach('deploy staking pools', async () => {
+    ({ testEnv, nextEnv } = await loadFixture(fixture));
+    actions = createTestActions(testEnv);
+    nextActions = createTestActions(nextEnv);
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await nextActions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+  });
+
+  it('reverts if the pool is before initiation', async () => {
+    await expect(
+      testEnv.stakingPool.connect(alice).migrate(stakeAmount, nextEnv.stakingPool.address)
+    ).to.be.revertedWith('StakingNotInitiated');
+  });
+
+  context('setSuccessor', async () => {
+    it('reverts if general account call', async () => {
+      await expect(
+        testEnv.stakingPool.connect(alice).setSuccessor(nextEnv.stakingPool.address, true)
+      ).to.be.revertedWith('Ownable: caller is not the owner');
+    });
+
+    it('reverts if the pool stakes another asset', async () => {
+      const stakingAssetFactory = await ethers.getContractFactory('StakingAsset');
+      const otherAsset = (await stakingAssetFactory.deploy('Other', 'OTHER')) as StakingAsset;
+      const { stakingPool: otherPool } = await setNextTestEnv({
+        ...testEnv,
+        stakingAsset: otherAsset,
+      });
+
+      await expect(
+        testEnv.stakingPool.connect(deployer).setSuccessor(otherPool.address, true)
+      ).to.be.revertedWith('InvalidSuccessor');
+      await expect(
+        testEnv.stakingPool.connect(deployer).setSuccessor(testEnv.stakingPool.address, true)
+      ).to.be.revertedWith('InvalidSuccessor');
+    });
+
+    it('approves and revokes the next pool', async () => {
+      const nextPool = nextEnv.stakingPool.address;
+      await expect(testEnv.stakingPool.connect(deployer).setSuccessor(nextPool, true))
+        .to.emit(testEnv.stakingPool, 'SetSuccessor')
+        .withArgs(deployer.address, nextPool, true);
+      expect(await testEnv.stakingPool.isSuccessor(nextPool)).to.be.true;
+
+      await testEnv.stakingPool.connect(deployer).setSuccessor(nextPool, false);
+      expect(await testEnv.stakingPool.isSuccessor(nextPool)).to.be.false;
+    });
+  });
+
+  context('when alice stakes in the pool and the next pool is initiated', async () => {
+    beforeEach(async () => {
+      // the invariant checkers follow the schedule from their first check, so move the clock first
+      await resetTimestampTo(firstTimestamp);
+      await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, firstTimestamp, duration);
+      await nextActions.initNewPoolAndTransfer(deployer, rewardPerSecond, nextTimestamp, duration);
+      await actions.stake(alice, stakeAmount);
+      await advanceTimeTo(nextTimestamp);
+    });
+
+    it('reverts if the next pool is not approved', async () => {
+      await expect(
+        actions.migrate(alice, stakeAmount, nextEnv.stakingPool.address)
+      ).to.be.revertedWith('NotSuccessor');
+    });
+
+    context('when the owner approves the next pool', async () => {
+      beforeEach(async () => {
+        await testEnv.stakingPool.connect(deployer).setSuccessor(nextEnv.stakingPool.address, true);
+      });
+
+      it('reverts if the user has no principal', async () => {
+        await expect(
+          actions.migrate(bob, stakeAmount, nextEnv.stakingPool.address)
+        ).to.be.revertedWith('ZeroPrincipal');
+      });
+
+      it('reverts if the amount is zero or exceeds the principal', async () => {
+        await expect(actions.migrate(alice, 0, nextEnv.stakingPool.address)).to.be.revertedWith(
+          'InvalidAmount'
+        );
+        await expect(
+          actions.migrate(alice, stakeAmount.add(1), nextEnv.stakingPool.address)
+        ).to.be.revertedWith('NotEnoughPrincipal');
+      });
+
+      it('reverts in an emergency', async () => {
+        await actions.setEmergency(deployer, true);
+        await expect(
+          actions.migrate(alice, stakeAmount, nextEnv.stakingPool.address)
+        ).to.be.revertedWith('Emergency');
+      });
+
+      it('alice migrates all', async () => {
+        const fromPoolDataBefore = await getPoolData(testEnv);
+        const fromUserDataBefore = await getUserData(testEnv, alice);
+        const toPoolDataBefore = await getPoolData(nextEnv);
+        const toUserDataBefore = await getUserData(nextEnv, alice);
+
+        const migrateTx = await actions.migrate(
+          alice,
+          constants.MaxUint256,
+          nextEnv.stakingPool.address
+        );
+
+        const [
+          [expectedFromPoolData, expectedFromUserData],
+          [expectedToPoolData, expectedToUserData],
+        ] = expectDataAfterMigrate(
+          fromPoolDataBefore,
+          fromUserDataBefore,
+          toPoolDataBefore,
+          toUserDataBefore,
+          await getTimestamp(migrateTx),
+          stakeAmount
+        );
+
+        expect(await getPoolData(testEnv)).to.be.equalPoolData(expectedFromPoolData);
+        expect(await getUserData(testEnv, alice)).to.be.equalUserData(expectedFromUserData);
+        expect(await getPoolData(nextEnv)).to.be.equalPoolData(expectedToPoolData);
+        expect(await getUserData(nextEnv, alice)).to.be.equalUserData(expectedToUserData);
+
+        await expect(migrateTx)
+          .to.emit(testEnv.stakingPool, 'Migrate')
+          .withArgs(
+            alice.address,
+            nextEnv.stakingPool.address,
+            stakeAmount,
+            0,
+            expectedFromUserData.rewardAssetBalance.sub(fromUserDataBefore.rewardAssetBalance)
+          );
+        await expect(migrateTx).to.emit(nextEnv.stakingPool, 'Stake');
+      });
+
+      it('alice migrates a part and the rest is withdrawn', async () => {
+        const migrateAmount = stakeAmount.div(4);
+        const fromPoolDataBefore = await getPoolData(testEnv);
+        const fromUserDataBefore = await getUserData(testEnv, alice);
+        const toPoolDataBefore = await getPoolData(nextEnv);
+        const toUserDataBefore = await getUserData(nextEnv, alice);
+
+        const migrateTx = await actions.migrate(alice, migrateAmount, nextEnv.stakingPool.address);
+
+        const [
+          [expectedFromPoolData, expectedFromUserData],
+          [expectedToPoolData, expectedToUserData],
+        ] = expectDataAfterMigrate(
+          fromPoolDataBefore,
+          fromUserDataBefore,
+          toPoolDataBefore,
+          toUserDataBefore,
+          await getTimestamp(migrateTx),
+          migrateAmount
+        );
+
+        expect(await getPoolData(testEnv)).to.be.equalPoolData(expectedFromPoolData);
+        expect(await getUserData(testEnv, alice)).to.be.equalUserData(expectedFromUserData);
+        expect(await getPoolData(nextEnv)).to.be.equalPoolData(expectedToPoolData);
+        expect(await getUserData(nextEnv, alice)).to.be.equalUserData(expectedToUserData);
+      });
+
+      it('moves the staked token and the votes to the next pool', async () => {
+        await testEnv.stakingPool.connect(alice).delegate(alice.address);
+        await nextEnv.stakingPool.connect(alice).delegate(alice.address);
+
+        await actions.migrate(alice, stakeAmount.div(2), nextEnv.stakingPool.address);
+
+        expect(await testEnv.stakingPool.balanceOf(alice.address)).to.equal(0);
+        expect(await testEnv.stakingPool.getVotes(alice.address)).to.equal(0);
+        expect(await nextEnv.stakingPool.balanceOf(alice.address)).to.equal(stakeAmount.div(2));
+        expect(await nextEnv.stakingPool.getVotes(alice.address)).to.equal(stakeAmount.div(2));
+      });
+
+      it('alice migrates after the pool is closed and earns in the next pool', async () => {
+        await actions.closePool(deployer);
+        await advanceTimeTo(nextTimestamp + SECONDSPERDAY);
+
+        await actions.migrate(alice, stakeAmount, nextEnv.stakingPool.address);
+        await advanceTimeTo(nextTimestamp + SECONDSPERDAY + 100);
+
+        expect(await nextEnv.stakingPool.getUserReward(alice.address)).to.be.gt(0);
+        await nextActions.claim(alice);
+        await nextActions.withdraw(alice, constants.MaxUint256);
+        expect(await nextEnv.stakingAsset.balanceOf(nextEnv.stakingPool.address)).to.equal(0);
+      });
+
+      it('reverts if the next pool is closed', async () => {
+        await nextActions.closePool(deployer);
+        await expect(
+          actions.migrate(alice, stakeAmount, nextEnv.stakingPool.address)
+        ).to.be.revertedWith('Closed');
+      });
+    });
+  });
+
+  context('stakeFor', async () => {
+    it('stakes the asset of the caller for the user', async () => {
+      await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, firstTimestamp, duration);
+      await resetTimestampTo(firstTimestamp);
+      const balanceBefore = await testEnv.stakingAsset.balanceOf(alice.address);
+
+      await expect(testEnv.stakingPool.connect(alice).stakeFor(bob.address, stakeAmount))
+        .to.emit(testEnv.stakingPool, 'Stake')
+        .withArgs(bob.address, stakeAmount, BigNumber.from(0), stakeAmount);
+      expect((await getUserData(testEnv, bob)).userPrincipal).to.equal(stakeAmount);
+      expect(await testEnv.stakingAsset.balanceOf(alice.address)).to.equal(
+        balanceBefore.sub(stakeAmount)
+      );
+    });
+
+    it('is open to third parties, the user keeps the reward and the principal', async () => {
+      await actions.faucetAndApproveTarget(bob, RAY);
+      await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, firstTimestamp, duration);
+      await resetTimestampTo(firstTimestamp);
+      const stakeTimestamp = await getTimestamp(await actions.stake(bob, stakeAmount));
+      await advanceTimeTo(firstTimestamp + SECONDSPERDAY);
+
+      const userDataBefore = await getUserData(testEnv, bob);
+      const tx = await testEnv.stakingPool.connect(alice).stakeFor(bob.address, stakeAmount);
+      const txTimestamp = await getTimestamp(tx);
+
+      const userData = await getUserData(testEnv, bob);
+      expect(userData.userPrincipal).to.equal(stakeAmount.mul(2));
+      // the reward bob accrued up to the stake is kept
+      expect(userData.userPreviousReward).to.equal(
+        rewardPerSecond.mul(txTimestamp.sub(stakeTimestamp))
+      );
+      expect(userData.stakingAssetBalance).to.equal(userDataBefore.stakingAssetBalance);
+      expect((await getUserData(testEnv, alice)).userPrincipal).to.equal(0);
+
+      await expect(actions.withdraw(alice, stakeAmount)).to.be.revertedWith('NotEnoughPrincipal');
+      await actions.withdraw(bob, constants.MaxUint256);
+      expect(await testEnv.stakingAsset.balanceOf(bob.address)).to.equal(
+        userDataBefore.stakingAssetBalance.add(stakeAmount.mul(2))
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import hre, { waffle } from 'hardhat';
+import { StakingPoolV2__factory } from '../typechain';
+import { planRewardBudget } from '../utils/planner';
+import { getExtendFunding } from '../utils/poolStatus';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+describe('pool:extend', () => {
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+
+  const provider = waffle.provider;
+  const [deployer, alice] = provider.getWallets();
+  const pool = 'StakingPoolV2_TEST';
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const startTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+  const newDuration = 20 * SECONDSPERDAY;
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  // The reward the pool can pay for a new period, as getExtendFunding counts it
+  const getFreeReward = async () => {
+    const funding = await getExtendFunding(testEnv.stakingPool, 0, rewardPerSecond, newDuration);
+    return funding.availableReward.sub(funding.owedReward);
+  };
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await hre.deployments.save(pool, {
+      abi: StakingPoolV2__factory.abi,
+      address: testEnv.stakingPool.address,
+      receipt: await testEnv.stakingPool.deployTransaction.wait(),
+    });
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+
+    await resetTimestampTo(startTimestamp);
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await actions.stake(alice, utils.parseEther('10'));
+    await advanceTimeTo(startTimestamp + 10 * SECONDSPERDAY);
+  });
+
+  it('counts the reward owed to the stakers out of the balance', async () => {
+    const funding = await getExtendFunding(testEnv.stakingPool, 0, rewardPerSecond, newDuration);
+    const { timestamp } = await provider.getBlock('latest');
+
+    expect(funding.availableReward).to.equal(rewardPerSecond.mul(duration));
+    expect(funding.owedReward).to.equal(await testEnv.stakingPool.getUserReward(alice.address));
+    expect(funding.owedReward).to.not.equal(0);
+    expect(funding.unaccruedReward).to.equal(
+      rewardPerSecond.mul(startTimestamp + duration - timestamp)
+    );
+    expect(funding.requiredReward).to.equal(rewardPerSecond.mul(newDuration));
+    expect(funding.shortfall).to.equal(0);
+  });
+
+  it('reports the shortfall when the balance minus the owed reward misses the new period', async () => {
+    const free = await getFreeReward();
+    const covered = free.div(newDuration);
+
+    const exact = await getExtendFunding(testEnv.stakingPool, 0, covered, newDuration);
+    const short = await getExtendFunding(testEnv.stakingPool, 0, covered.add(1), newDuration);
+
+    expect(exact.shortfall).to.equal(0);
+    expect(short.shortfall).to.equal(covered.add(1).mul(newDuration).sub(free));
+    // the whole balance would cover it, the owed reward does not
+    expect(short.availableReward.gte(short.requiredReward)).to.be.true;
+  });
+
+  it('restarts the pool with the rate of a budget', async () => {
+    const budget = utils.parseEther('100000');
+    const plan = planRewardBudget(budget, newDuration);
+
+    await hre.run('pool:extend', {
+      pool,
+      duration: newDuration,
+      budget: utils.formatEther(budget),
+    });
+
+    const { timestamp } = await provider.getBlock('latest');
+    const poolData = await testEnv.stakingPool.getPoolData();
+    expect(poolData.rewardPerSecond).to.equal(plan.rewardPerSecond);
+    expect(poolData.startTimestamp).to.equal(timestamp);
+    expect(poolData.endTimestamp).to.equal(timestamp + newDuration);
+  });
+
+  it('restarts the pool with --reward-per-second', async () => {
+    const newRewardPerSecond = utils.parseEther('0.5');
+
+    await hre.run('pool:extend', {
+      pool,
+      duration: newDuration,
+      rewardPerSecond: newRewardPerSecond.toString(),
+    });
+
+    const { timestamp } = await provider.getBlock('latest');
+    const poolData = await testEnv.stakingPool.getPoolData();
+    expect(poolData.rewardPerSecond).to.equal(newRewardPerSecond);
+    expect(poolData.endTimestamp).to.equal(timestamp + newDuration);
+  });
+
+  it('refuses a rate the balance minus the owed reward does not cover', async () => {
+    const free = await getFreeReward();
+    // a few seconds pass until the task reads the balance, the owed reward grows meanwhile
+    const tooHigh = free.div(newDuration).add(1);
+
+    for (const args of [
+      { rewardPerSecond: tooHigh.toString() },
+      { budget: utils.formatEther(tooHigh.mul(newDuration)) },
+    ]) {
+      try {
+        await hre.run('pool:extend', { pool, duration: newDuration, ...args });
+        expect.fail('expected pool:extend to refuse the rate');
+      } catch (e) {
+        expect((e as Error).message).to.match(
+          new RegExp(`^${pool} lacks [0-9.]+ to pay the new period, transfer it first$`)
+        );
+      }
+    }
+    expect((await testEnv.stakingPool.getPoolData()).rewardPerSecond).to.equal(rewardPerSecond);
+  });
+
+  it('refuses a duration that is not positive', async () => {
+    for (const duration of [0, -SECONDSPERDAY]) {
+      try {
+        await hre.run('pool:extend', { pool, duration, budget: '1' });
+        expect.fail('expected pool:extend to refuse the duration');
+      } catch (e) {
+        expect((e as Error).message).to.equal(
+          `--duration must be a positive number of seconds, got ${duration}`
+        );
+      }
+    }
+  });
+
+  it('takes either --budget or --reward-per-second', async () => {
+    for (const args of [{}, { budget: '1', rewardPerSecond: '1' }]) {
+      try {
+        await hre.run('pool:extend', { pool, duration: newDuration, ...args });
+        expect.fail('expected pool:extend to refuse the arguments');
+      } catch (e) {
+        expect((e as Error).message).to.equal('Pass either --budget or --reward-per-second');
+      }
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { ethers, waffle } from 'hardhat';
+import { StakingPoolV2 } from '../typechain';
+import { getPoolStatus, getStakers } from '../utils/poolStatus';
+import { TestEnv } from './types';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setERC20Metadata, setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+describe('pool:status', () => {
+  const provider = waffle.provider;
+  const [deployer, alice, bob] = provider.getWallets();
+
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const startTimestamp = toTimestamp('2022.07.07 10:00:00Z');
+  const endTimestamp = startTimestamp + duration;
+  const stakeAmount = utils.parseEther('10');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+    await actions.faucetAndApproveTarget(bob, RAY);
+  });
+
+  const getOwed = async (pool: StakingPoolV2, stakers: string[]) => {
+    const rewards = await Promise.all(stakers.map((staker) => pool.getUserReward(staker)));
+    return rewards.reduce((sum, reward) => sum.add(reward));
+  };
+
+  it('lists every staker once from the Stake events', async () => {
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await resetTimestampTo(startTimestamp);
+    await actions.stake(alice, stakeAmount);
+    await actions.stake(bob, stakeAmount);
+    await actions.stake(alice, stakeAmount);
+
+    const stakers = await getStakers(testEnv.stakingPool, 0, await provider.getBlockNumber());
+
+    expect(stakers).to.eql([alice.address, bob.address]);
+  });
+
+  it('reports the balance, the owed and the future reward of a funded pool', async () => {
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await resetTimestampTo(startTimestamp);
+    await actions.stake(alice, stakeAmount);
+    await actions.stake(bob, stakeAmount);
+    await advanceTimeTo(startTimestamp + 10 * SECONDSPERDAY);
+
+    const status = await getPoolStatus('StakingPoolV2_TEST', testEnv.stakingPool, 0);
+    const { timestamp } = await provider.getBlock('latest');
+
+    expect(status).to.deep.include({
+      name: 'StakingPoolV2_TEST',
+      address: testEnv.stakingPool.address,
+      stakingSymbol: 'STAKING',
+      stakingDecimals: 18,
+      rewardSymbol: 'Reward',
+      rewardDecimals: 18,
+      startTimestamp,
+      endTimestamp,
+      remaining: endTimestamp - timestamp,
+      fundedToEnd: true,
+    });
+    expect(status.totalPrincipal).to.equal(stakeAmount.mul(2));
+    expect(status.rewardBalance).to.equal(rewardPerSecond.mul(duration));
+    expect(status.availableReward).to.equal(status.rewardBalance);
+    expect(status.owedReward).to.equal(
+      await getOwed(testEnv.stakingPool, [alice.address, bob.address])
+    );
+    expect(status.futureReward).to.equal(rewardPerSecond.mul(endTimestamp - timestamp));
+  });
+
+  it('reports a pool that cannot pay until its end', async () => {
+    await testEnv.stakingPool.initNewPool(rewardPerSecond, startTimestamp, duration);
+    await testEnv.rewardAsset.transfer(
+      testEnv.stakingPool.address,
+      rewardPerSecond.mul(duration / 2)
+    );
+    await resetTimestampTo(startTimestamp);
+    await actions.stake(alice, stakeAmount);
+
+    const status = await getPoolStatus('StakingPoolV2_TEST', testEnv.stakingPool, 0);
+
+    expect(status.fundedToEnd).to.be.false;
+    expect(status.owedReward.add(status.futureReward)).to.be.gt(status.availableReward);
+  });
+
+  it('reports no remaining or future reward after the end', async () => {
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await resetTimestampTo(startTimestamp);
+    await actions.stake(alice, stakeAmount);
+    await advanceTimeTo(endTimestamp + SECONDSPERDAY);
+
+    const status = await getPoolStatus('StakingPoolV2_TEST', testEnv.stakingPool, 0);
+
+    expect(status.remaining).to.equal(0);
+    expect(status.futureReward).to.equal(0);
+    expect(status.owedReward).to.equal(await testEnv.stakingPool.getUserReward(alice.address));
+    expect(status.fundedToEnd).to.be.true;
+  });
+
+  it('leaves the staked principal out of the available reward when both assets are the same', async () => {
+    const erc20Metadata = await setERC20Metadata();
+    const stakingPoolFactory = await ethers.getContractFactory('StakingPoolV2', {
+      libraries: { ERC20Metadata: erc20Metadata.address },
+    });
+    const asset = testEnv.stakingAsset;
+    const pool = (await stakingPoolFactory.deploy(asset.address, asset.address)) as StakingPoolV2;
+    await pool.initNewPool(rewardPerSecond, startTimestamp, duration);
+    await asset.transfer(pool.address, rewardPerSecond.mul(duration));
+    await asset.connect(alice).approve(pool.address, stakeAmount);
+    await resetTimestampTo(startTimestamp);
+    await pool.connect(alice).stake(stakeAmount);
+
+    const status = await getPoolStatus('StakingPoolV2_SAME', pool, 0);
+
+    expect(status.rewardBalance).to.equal(rewardPerSecond.mul(duration).add(stakeAmount));
+    expect(status.availableReward).to.equal(rewardPerSecond.mul(duration));
+  });
+});
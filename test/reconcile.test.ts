@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { expect } from 'chai';
+import { providers, utils } from 'ethers';
+import { network, waffle } from 'hardhat';
+import { INDEX_DIR, loadPoolIndex, syncPoolIndex } from '../utils/indexer';
+import { hasDrift, reconcilePool } from '../utils/reconcile';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setNextTestEnv, setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+describe('pool:reconcile', () => {
+  let testEnv: TestEnv;
+  let nextEnv: TestEnv;
+  let actions: TestHelperActions;
+  let nextActions: TestHelperActions;
+
+  const provider = waffle.provider;
+  const [deployer, alice, bob] = provider.getWallets();
+  const indexNetwork = 'reconcile-test';
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const firstTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+  const nextTimestamp = firstTimestamp + SECONDSPERDAY;
+
+  async function fixture() {
+    const testEnv = await setTestEnv();
+    return { testEnv, nextEnv: await setNextTestEnv(testEnv) };
+  }
+
+  // ethers never lets the block number of a provider go back, as it does after the fixture reverts
+  const reconcile = async () => {
+    const index = await syncPoolIndex(
+      loadPoolIndex(indexNetwork, 'StakingPoolV2_TEST', testEnv.stakingPool.address, 0),
+      new providers.Web3Provider((method, params) => network.provider.send(method, params)),
+      { confirmations: 0, chunkSize: 5000 }
+    );
+    return reconcilePool(testEnv.stakingPool, index);
+  };
+
+  beforeEach(async () => {
+    ({ testEnv, nextEnv } = await loadFixture(fixture));
+    actions = createTestActions(testEnv);
+    nextActions = createTestActions(nextEnv);
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await nextActions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+    await actions.faucetAndApproveTarget(bob, RAY);
+
+    await resetTimestampTo(firstTimestamp);
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, firstTimestamp, duration);
+    await nextActions.initNewPoolAndTransfer(deployer, rewardPerSecond, nextTimestamp, duration);
+    await testEnv.stakingPool.connect(deployer).setSuccessor(nextEnv.stakingPool.address, true);
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(INDEX_DIR, indexNetwork), { recursive: true, force: true });
+  });
+
+  it('replays stakes, withdrawals, claims and migrations without drift', async () => {
+    await actions.stake(alice, utils.parseEther('10'));
+    await actions.stake(bob, utils.parseEther('20'));
+    await advanceTimeTo(firstTimestamp + SECONDSPERDAY / 2);
+    await actions.withdraw(alice, utils.parseEther('4'));
+    await actions.claim(bob);
+    await advanceTimeTo(nextTimestamp + 100);
+    await actions.migrate(alice, utils.parseEther('5'), nextEnv.stakingPool.address);
+    await actions.stake(bob, utils.parseEther('3'));
+    await advanceTimeTo(nextTimestamp + SECONDSPERDAY);
+
+    const result = await reconcile();
+
+    expect(result.users.map((drift) => drift.user)).to.eql([alice.address, bob.address]);
+    expect(result.users.filter(hasDrift)).to.be.empty;
+    expect(result.rewardIndexDrift).to.equal(0);
+    expect(result.totalPrincipalDrift).to.equal(0);
+    expect(result.replay.totalPrincipal).to.equal(utils.parseEther('23'));
+    expect(result.principalSurplus).to.equal(0);
+  });
+
+  it('reports the staking asset sent to the pool with a plain transfer', async () => {
+    await actions.stake(alice, utils.parseEther('10'));
+    await testEnv.stakingAsset.connect(bob).transfer(testEnv.stakingPool.address, 7);
+    await advanceTimeTo(firstTimestamp + SECONDSPERDAY);
+
+    const result = await reconcile();
+
+    expect(result.users.filter(hasDrift)).to.be.empty;
+    expect(result.totalPrincipalDrift).to.equal(0);
+    expect(result.principalSurplus).to.equal(7);
+  });
+});
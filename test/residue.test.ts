@@ -0,0 +1,101 @@
+import fs from 'fs';
+import path from 'path';
+import { expect } from 'chai';
+import { providers, utils } from 'ethers';
+import { network, waffle } from 'hardhat';
+import { StakingPoolV2, StakingPoolV2__factory } from '../typechain';
+import { INDEX_DIR, loadPoolIndex, PoolIndex, syncPoolIndex } from '../utils/indexer';
+import { getResidueReport } from '../utils/residue';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+describe('getResidueReport', () => {
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+  let index: PoolIndex;
+
+  const provider = waffle.provider;
+  const [deployer, alice] = provider.getWallets();
+  const indexNetwork = 'residue-test';
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const startTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  // The pool with its getOwedReward replaced, the functions of a contract are read-only
+  const withGetOwedReward = (getOwedReward: StakingPoolV2['getOwedReward']): StakingPoolV2 =>
+    Object.create(testEnv.stakingPool, { getOwedReward: { value: getOwedReward } });
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+
+    await resetTimestampTo(startTimestamp);
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await actions.stake(alice, utils.parseEther('10'));
+    await advanceTimeTo(startTimestamp + SECONDSPERDAY);
+
+    // ethers never lets the block number of a provider go back, as it does after the fixture reverts
+    index = await syncPoolIndex(
+      loadPoolIndex(indexNetwork, 'StakingPoolV2_TEST', testEnv.stakingPool.address, 0),
+      new providers.Web3Provider((method, params) => network.provider.send(method, params)),
+      { confirmations: 0, chunkSize: 5000 }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(INDEX_DIR, indexNetwork), { recursive: true, force: true });
+  });
+
+  it('keeps the reward owed to the stakers out of the residue', async () => {
+    const report = await getResidueReport(testEnv.stakingPool, index);
+
+    expect(report.tracksOwedReward).to.be.true;
+    expect(report.rewardBalance).to.equal(rewardPerSecond.mul(duration));
+    expect(report.owedReward).to.not.equal(0);
+    expect(report.safeResidue).to.equal(report.rewardBalance.sub(report.owedReward));
+    // the contract rounds the owed reward up
+    const contractOwedReward = await testEnv.stakingPool.getOwedReward({
+      blockTag: report.blockNumber,
+    });
+    expect(report.contractResidue).to.equal(report.rewardBalance.sub(contractOwedReward));
+    expect(report.contractResidue.lte(report.safeResidue)).to.be.true;
+  });
+
+  it('reports a pool without getOwedReward', async () => {
+    // the reward asset has no getOwedReward, the call reverts as on a pool deployed before it
+    const missing = StakingPoolV2__factory.connect(testEnv.rewardAsset.address, provider);
+    const report = await getResidueReport(
+      withGetOwedReward((overrides) => missing.getOwedReward(overrides)),
+      index
+    );
+
+    expect(report.tracksOwedReward).to.be.false;
+    expect(report.contractResidue).to.equal(report.rewardBalance);
+    expect(report.safeResidue).to.equal(report.rewardBalance.sub(report.owedReward));
+  });
+
+  it('fails when getOwedReward fails for another reason', async () => {
+    const pool = withGetOwedReward(async () => {
+      throw new Error('connection refused');
+    });
+
+    try {
+      await getResidueReport(pool, index);
+      expect.fail('expected the report to fail');
+    } catch (e) {
+      expect((e as Error).message).to.equal('connection refused');
+    }
+  });
+});
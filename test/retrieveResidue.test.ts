@@ -1,23 +1,29 @@
 import { expect } from 'chai';
-import { BigNumber, utils } from 'ethers';
+import { BigNumber, constants, utils } from 'ethers';
 import { ethers, waffle } from 'hardhat';
+import TestEnv from './types/TestEnv';
 import { StakingAsset, StakingPoolV2 } from '../typechain';
-import { MAX_UINT_AMOUNT, SECONDSPERDAY } from './utils/constants';
-import { setERC20Metadata } from './utils/testEnv';
-import { resetTimestampTo, toTimestamp } from './utils/time';
+import { MAX_UINT_AMOUNT, RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { createInvariantChecker } from './utils/invariants';
+import { setERC20Metadata, setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
 
 require('./utils/matchers.ts');
 
+const { loadFixture } = waffle;
+
 describe('StakingPool.retrieveResidue', () => {
   const provider = waffle.provider;
-  const [deployer, staker] = provider.getWallets();
+  const [deployer, staker, bob] = provider.getWallets();
 
   const rewardPerSecond = utils.parseEther('1');
   const duration = SECONDSPERDAY;
 
   const startTimestamp = toTimestamp("2022.07.07 10:00:00Z")
+  const endTimestamp = startTimestamp + duration;
 
-  // TODO: Test when the reward != staking asset
+  const stakeAmount = BigNumber.from(utils.parseEther('100'));
 
   context('when the reward asset and the staking asset are the same', () => {
     // Note! the reward and the staking asset are the same.
@@ -25,7 +31,7 @@ describe('StakingPool.retrieveResidue', () => {
     let asset: StakingAsset;
     let stakingPool: StakingPoolV2
 
-    before(async () => {
+    async function fixture() {
       const erc20MetadataLibrary = await setERC20Metadata();
       const stakingAssetFactory = await ethers.getContractFactory('StakingAsset');
       const elysiaToken = await stakingAssetFactory.deploy('Elysia', 'EL') as StakingAsset;
@@ -38,46 +44,137 @@ describe('StakingPool.retrieveResidue', () => {
         }
       );
 
-      stakingPool = await stakingPoolFactory.deploy(
+      const pool = await stakingPoolFactory.deploy(
         elysiaToken.address,
         elysiaToken.address,
       ) as StakingPoolV2;
-      asset = elysiaToken;
+      return { asset: elysiaToken, stakingPool: pool };
+    }
+
+    beforeEach(async () => {
+      ({ asset, stakingPool } = await loadFixture(fixture));
+
+      await stakingPool
+        .connect(deployer)
+        .initNewPool(rewardPerSecond, startTimestamp, duration);
+      await asset.connect(deployer).transfer(stakingPool.address, rewardPerSecond.mul(duration));
+      await asset.connect(staker).faucet();
+      await asset.connect(staker).approve(stakingPool.address, MAX_UINT_AMOUNT);
+
+      // The staking starts
+      await resetTimestampTo(startTimestamp);
     });
 
-    describe('retrieveResidue', async () => {
-      it('reverts if general account call', async () => {
-        await expect(stakingPool.connect(staker).retrieveResidue()).to.be.revertedWith(
-          'Ownable: caller is not the owner'
-        );
-      });
+    it('reverts if general account call', async () => {
+      await expect(stakingPool.connect(staker).retrieveResidue()).to.be.revertedWith(
+        'Ownable: caller is not the owner'
+      );
+    });
 
-      it('should retrieve the asset as much as the reward amount', async () => {
-        // The pool is initialized but has not started yet.
-        await asset.connect(deployer).approve(stakingPool.address, MAX_UINT_AMOUNT);
-        await asset.connect(deployer).faucet();
+    it('keeps the principal and the rewards the staker has not claimed yet', async () => {
+      // the principal is part of the reward balance here
+      const invariants = createInvariantChecker(stakingPool, asset, asset);
+      await invariants.check();
+      await stakingPool.connect(staker).stake(stakeAmount);
+      await invariants.check();
+      await advanceTimeTo(startTimestamp + duration / 2);
+      await stakingPool.connect(deployer).closePool();
+      await invariants.check();
+
+      const poolBalance = await asset.balanceOf(stakingPool.address);
+      const owedReward = await stakingPool.getOwedReward();
+      const userReward = await stakingPool.getUserReward(staker.address);
+      // rounded up, plus a wei for the staker
+      expect(owedReward.sub(userReward)).to.be.within(0, 2);
+
+      const tx = await stakingPool.connect(deployer).retrieveResidue();
+      await expect(tx)
+        .to.emit(asset, 'Transfer')
+        .withArgs(stakingPool.address, deployer.address, poolBalance.sub(stakeAmount).sub(owedReward));
+
+      await expect(stakingPool.connect(staker).claim())
+        .to.emit(stakingPool, 'Claim')
+        .withArgs(staker.address, userReward, owedReward.sub(userReward));
+      await invariants.check();
+      await stakingPool.connect(staker).withdraw(constants.MaxUint256);
+      await invariants.check();
+      expect(await asset.balanceOf(stakingPool.address)).to.equal(owedReward.sub(userReward));
+    });
 
-        // This also sends the reward asset which amounts to rewardPerSecond * duration
-        await stakingPool
-          .connect(deployer)
-          .initNewPool(rewardPerSecond, startTimestamp, duration);
+    it('retrieves the whole reward balance while nobody stakes', async () => {
+      const tx = await stakingPool.connect(deployer).retrieveResidue();
+      await expect(tx)
+        .to.emit(asset, 'Transfer')
+        .withArgs(stakingPool.address, deployer.address, rewardPerSecond.mul(duration));
+    });
+  });
 
-        const stakeAmount = BigNumber.from(utils.parseEther('100'));
+  context('when the reward asset and the staking asset are different', () => {
+    let testEnv: TestEnv;
+    let actions: TestHelperActions;
+
+    async function fixture() {
+      return await setTestEnv();
+    }
+
+    beforeEach(async () => {
+      testEnv = await loadFixture(fixture);
+      actions = createTestActions(testEnv);
+      await actions.faucetAndApproveReward(deployer, constants.MaxUint256);
+      await actions.faucetAndApproveTarget(staker, RAY);
+      await actions.faucetAndApproveTarget(bob, RAY);
+      await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+      await resetTimestampTo(startTimestamp);
+    });
 
-        // The staking starts
-        await resetTimestampTo(startTimestamp);
+    it('keeps the rewards accrued and claimed by some stakers only', async () => {
+      await actions.stake(staker, stakeAmount);
+      await advanceTimeTo(startTimestamp + 100);
+      await actions.stake(bob, stakeAmount.mul(3));
+      await advanceTimeTo(startTimestamp + 1000);
+      await actions.claim(staker);
+      await advanceTimeTo(endTimestamp + 1);
+
+      const { rewardAsset, stakingPool } = testEnv;
+      const owedReward = await stakingPool.getOwedReward();
+      const userRewards = await Promise.all(
+        [staker, bob].map((wallet) => stakingPool.getUserReward(wallet.address))
+      );
+      const totalUserReward = userRewards[0].add(userRewards[1]);
+      expect(owedReward.sub(totalUserReward)).to.be.within(0, 3);
+
+      const rewardBalance = await rewardAsset.balanceOf(stakingPool.address);
+      await expect(stakingPool.connect(deployer).retrieveResidue())
+        .to.emit(stakingPool, 'RetrieveResidue')
+        .withArgs(deployer.address, rewardBalance.sub(owedReward));
+
+      await actions.claim(staker);
+      await actions.claim(bob);
+      expect(await rewardAsset.balanceOf(stakingPool.address)).to.equal(
+        owedReward.sub(totalUserReward)
+      );
+    });
+
+    it('retrieves nothing more when it is called again after the end', async () => {
+      await actions.stake(staker, stakeAmount);
+      await advanceTimeTo(endTimestamp + 1);
 
-        // deployer stakes
-        await stakingPool.connect(deployer).stake(stakeAmount);
-        const poolBalance = await asset.balanceOf(stakingPool.address);
+      await testEnv.stakingPool.connect(deployer).retrieveResidue();
+      await expect(testEnv.stakingPool.connect(deployer).retrieveResidue())
+        .to.emit(testEnv.stakingPool, 'RetrieveResidue')
+        .withArgs(deployer.address, 0);
+    });
 
-        const tx = await stakingPool.connect(deployer).retrieveResidue();
-        const rewardAmount = poolBalance.sub(stakeAmount)
+    it('retrieves nothing while the pool owes more than its balance', async () => {
+      await actions.stake(staker, stakeAmount);
+      await advanceTimeTo(startTimestamp + 1000);
+      // move the funding away so the pool is short of the owed rewards
+      await testEnv.stakingPool.connect(deployer).retrieveResidue();
+      await advanceTimeTo(startTimestamp + 2000);
 
-        await expect(tx)
-          .to.emit(asset, 'Transfer')
-          .withArgs(stakingPool.address, deployer.address, rewardAmount);
-      });
+      await expect(testEnv.stakingPool.connect(deployer).retrieveResidue())
+        .to.emit(testEnv.stakingPool, 'RetrieveResidue')
+        .withArgs(deployer.address, 0);
     });
   });
 });
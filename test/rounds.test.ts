@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import hre, { waffle } from 'hardhat';
+import moment from 'moment';
+import rounds from '../data/rounds';
+import { InitRoundData } from '../data/types/InitRoundData';
+import { PoolConfig } from '../data/types/PoolManifest';
+import { StakingPoolV2__factory } from '../typechain';
+import { getRoundStartTimestamp } from '../utils/rounds';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions } from './utils/helpers';
+import { setTestEnv } from './utils/testEnv';
+
+const { loadFixture } = waffle;
+
+describe('rounds:apply', () => {
+  let testEnv: TestEnv;
+  let dir: string;
+  let manifest: string;
+
+  const provider = waffle.provider;
+  const [deployer] = provider.getWallets();
+  const pool = 'StakingPoolV2_TEST';
+
+  // rounds:apply refuses rounds starting before the wall clock
+  const start = moment.utc().add(30, 'days');
+  const round: InitRoundData = {
+    rewardPerSecond: utils.parseEther('0.001'),
+    year: start.year(),
+    month: start.month() + 1,
+    day: start.date(),
+    hour: 10,
+    minute: 0,
+    timezone: 'UTC',
+    duration: 28 * SECONDSPERDAY,
+  };
+  const pastRound: InitRoundData = { ...round, year: 2022, month: 4, day: 18, applied: true };
+  const funding = round.rewardPerSecond.mul(round.duration);
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  const writeManifest = (configs: PoolConfig[]) =>
+    fs.writeFileSync(manifest, JSON.stringify({ hardhat: configs }));
+
+  const applyRounds = (args: { pool?: string } = {}) =>
+    hre.run('rounds:apply', { manifest, ...args });
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    await createTestActions(testEnv).faucetAndApproveReward(deployer, RAY);
+    await hre.deployments.save(pool, {
+      abi: StakingPoolV2__factory.abi,
+      address: testEnv.stakingPool.address,
+      receipt: await testEnv.stakingPool.deployTransaction.wait(),
+    });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rounds-test-'));
+    manifest = path.join(dir, 'pools.json');
+    writeManifest([
+      {
+        name: pool,
+        stakingAsset: testEnv.stakingAsset.address,
+        rewardAsset: testEnv.rewardAsset.address,
+      },
+    ]);
+    rounds.hardhat = { [pool]: [pastRound, round] };
+  });
+
+  afterEach(() => {
+    delete rounds.hardhat;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('funds the pool and inits the latest round', async () => {
+    await applyRounds();
+
+    const startTimestamp = getRoundStartTimestamp(round);
+    const poolData = await testEnv.stakingPool.getPoolData();
+    expect(await testEnv.rewardAsset.balanceOf(testEnv.stakingPool.address)).to.equal(funding);
+    expect(poolData.rewardPerSecond).to.equal(round.rewardPerSecond);
+    expect(poolData.startTimestamp).to.equal(startTimestamp);
+    expect(poolData.endTimestamp).to.equal(startTimestamp + round.duration);
+  });
+
+  it('skips the pools whose latest round is applied', async () => {
+    rounds.hardhat = { [pool]: [pastRound] };
+
+    await applyRounds();
+    expect((await testEnv.stakingPool.getPoolData()).startTimestamp).to.equal(0);
+
+    try {
+      await applyRounds({ pool });
+      expect.fail('expected rounds:apply to refuse the applied round');
+    } catch (e) {
+      expect((e as Error).message).to.equal(
+        `${pool}: the latest round in data/rounds.ts is already applied`
+      );
+    }
+  });
+
+  it('checks every round against the manifest before sending anything', async () => {
+    rounds.hardhat = { [pool]: [round], StakingPoolV2_NEXT: [round] };
+
+    const expectRefused = async (message: string) => {
+      try {
+        await applyRounds();
+        expect.fail('expected rounds:apply to refuse the rounds');
+      } catch (e) {
+        expect((e as Error).message).to.equal(message);
+      }
+      expect(await testEnv.rewardAsset.balanceOf(testEnv.stakingPool.address)).to.equal(0);
+      expect((await testEnv.stakingPool.getPoolData()).startTimestamp).to.equal(0);
+    };
+
+    await expectRefused('StakingPoolV2_NEXT: no reward asset for hardhat in data/pools.json');
+
+    writeManifest([
+      {
+        name: pool,
+        stakingAsset: testEnv.stakingAsset.address,
+        rewardAsset: testEnv.stakingAsset.address,
+      },
+    ]);
+    rounds.hardhat = { [pool]: [round] };
+    await expectRefused(
+      `${pool}: reward asset is not ${testEnv.stakingAsset.address} (${testEnv.stakingAsset.address})`
+    );
+  });
+
+  it('refuses a pending round that has already started', async () => {
+    rounds.hardhat = { [pool]: [{ ...pastRound, applied: undefined }] };
+
+    try {
+      await applyRounds();
+      expect.fail('expected rounds:apply to refuse the round');
+    } catch (e) {
+      expect((e as Error).message).to.equal('Round start 2022-04-18 10:00 UTC is in the past');
+    }
+  });
+});
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import hre, { waffle } from 'hardhat';
+import { createTaskRunner } from '../tasks/utils/runner';
+import { StakingPoolV2__factory } from '../typechain';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setTestEnv } from './utils/testEnv';
+import { resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+interface SafeBatch {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: { name: string; description: string; createdFromSafeAddress: string };
+  transactions: {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+  }[];
+}
+
+describe('--safe-batch', () => {
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+  let dir: string;
+  let file: string;
+
+  const provider = waffle.provider;
+  const [deployer, safe, alice] = provider.getWallets();
+  const pool = 'StakingPoolV2_TEST';
+  const poolInterface = StakingPoolV2__factory.createInterface();
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const startTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  const readBatch = (): SafeBatch => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await hre.deployments.save(pool, {
+      abi: StakingPoolV2__factory.abi,
+      address: testEnv.stakingPool.address,
+      receipt: await testEnv.stakingPool.deployTransaction.wait(),
+    });
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'safe-batch-test-'));
+    file = path.join(dir, 'batch.json');
+
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await resetTimestampTo(startTimestamp);
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await testEnv.stakingPool.connect(deployer).setManager(safe.address);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes the call of the task for the Safe instead of sending it', async () => {
+    const before = await testEnv.stakingPool.getPoolData();
+    const newRewardPerSecond = utils.parseEther('0.5');
+
+    await hre.run('pool:extend', {
+      pool,
+      duration: 10 * SECONDSPERDAY,
+      rewardPerSecond: newRewardPerSecond.toString(),
+      safeBatch: file,
+      safe: safe.address,
+    });
+
+    const batch = readBatch();
+    expect(batch.version).to.equal('1.0');
+    expect(batch.chainId).to.equal((await provider.getNetwork()).chainId.toString());
+    expect(batch.meta).to.eql({
+      name: 'batch',
+      description: `1. ${pool}.extendPool(${newRewardPerSecond}, ${10 * SECONDSPERDAY})`,
+      createdFromSafeAddress: safe.address,
+    });
+    expect(batch.transactions).to.have.length(1);
+    const [transaction] = batch.transactions;
+    expect(transaction.to).to.equal(testEnv.stakingPool.address);
+    expect(transaction.value).to.equal('0');
+    expect(transaction.contractMethod).to.be.null;
+    expect(transaction.contractInputsValues).to.be.null;
+
+    const call = poolInterface.parseTransaction({ data: transaction.data });
+    expect(call.name).to.equal('extendPool');
+    expect(call.args.rewardPerSecond).to.equal(newRewardPerSecond);
+    expect(call.args.duration).to.equal(10 * SECONDSPERDAY);
+
+    // nothing was sent
+    expect(await testEnv.stakingPool.getPoolData()).to.eql(before);
+  });
+
+  it('numbers the calls in the order they were made', async () => {
+    const runner = await createTaskRunner(hre, {
+      dryRun: false,
+      safeBatch: file,
+      safe: safe.address,
+    });
+    await runner.run(async () => {
+      await runner.send(testEnv.stakingPool, 'setManager', [alice.address]);
+      await runner.send(testEnv.stakingPool, 'closePool');
+    });
+
+    const batch = readBatch();
+    expect(batch.meta.description).to.equal(
+      `1. ${pool}.setManager(${alice.address})\n2. ${pool}.closePool()`
+    );
+    expect(
+      batch.transactions.map((transaction) => {
+        const call = poolInterface.parseTransaction({ data: transaction.data });
+        return [transaction.to, call.name, ...call.args];
+      })
+    ).to.eql([
+      [testEnv.stakingPool.address, 'setManager', alice.address],
+      [testEnv.stakingPool.address, 'closePool'],
+    ]);
+    expect(await testEnv.stakingPool.isManager(alice.address)).to.be.false;
+  });
+
+  it('needs --safe', async () => {
+    try {
+      await hre.run('pool:close', { pool, safeBatch: file });
+      expect.fail('expected --safe-batch to need --safe');
+    } catch (e) {
+      expect((e as Error).message).to.equal('--safe-batch needs --safe');
+    }
+    expect(fs.existsSync(file)).to.be.false;
+  });
+});
@@ -0,0 +1,40 @@
+import { expect } from 'chai';
+import { waffle } from 'hardhat';
+import {
+  formatTestCase,
+  generateActions,
+  runActions,
+  setDifferentialEnv,
+  shrinkActions,
+} from '../utils/differential';
+
+const { loadFixture } = waffle;
+
+// DIFF_SEED, DIFF_RUNS and DIFF_STEPS pick the sequences, e.g. DIFF_SEED=1234 to replay a failure
+const firstSeed = parseInt(process.env.DIFF_SEED || '1', 10);
+const runs = parseInt(process.env.DIFF_RUNS || '3', 10);
+const steps = parseInt(process.env.DIFF_STEPS || '30', 10);
+
+describe('StakingPool differential', () => {
+  async function fixture() {
+    return await setDifferentialEnv();
+  }
+
+  Array.from({ length: runs }, (_, i) => firstSeed + i).forEach((seed) => {
+    it(`matches the model for the random sequence of seed ${seed}`, async () => {
+      const actions = generateActions(seed, steps);
+      const failure = await runActions(await loadFixture(fixture), actions);
+      if (failure === undefined) return;
+
+      const shrunk = await shrinkActions(actions, async (candidate) =>
+        runActions(await loadFixture(fixture), candidate)
+      );
+      const shrunkFailure = await runActions(await loadFixture(fixture), shrunk);
+      console.log(formatTestCase(`reproduces seed ${seed}`, shrunk));
+      expect.fail(
+        `seed ${seed} fails at step ${failure.step}, ` +
+          `shrunk to ${shrunk.length} steps: ${shrunkFailure?.message || failure.message}`
+      );
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { waffle } from 'hardhat';
+import { StakingPoolV2__factory } from '../../typechain';
+import {
+  describeError,
+  InvalidAmountError,
+  NotEnoughPrincipalError,
+  NotSuccessorError,
+  parseRevert,
+  StakingNotInitiatedError,
+  StakingPoolClient,
+  ZeroRewardError,
+} from '../../sdk';
+import { TestEnv } from '../types';
+import { MAX_UINT_AMOUNT, RAY, SECONDSPERDAY } from '../utils/constants';
+import { createTestActions, TestHelperActions } from '../utils/helpers';
+import { setTestEnv } from '../utils/testEnv';
+import { resetTimestampTo, toTimestamp } from '../utils/time';
+
+const { loadFixture } = waffle;
+
+const errorOf = (promise: Promise<unknown>) => promise.then(
+  () => undefined,
+  (e) => e
+);
+
+describe('StakingPoolClient', () => {
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+  let client: StakingPoolClient;
+
+  const provider = waffle.provider;
+  const [deployer, alice] = provider.getWallets();
+
+  const rewardPersecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const firstTimestamp = toTimestamp('2022.07.07 10:00:00Z');
+  const stakeAmount = utils.parseEther('10');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await testEnv.stakingAsset.connect(alice).faucet();
+    client = new StakingPoolClient(testEnv.stakingPool.address, alice);
+  });
+
+  it('decodes StakingNotInitiated', async () => {
+    expect(await errorOf(client.stake(stakeAmount))).to.be.instanceOf(StakingNotInitiatedError);
+  });
+
+  context('when the pool is initiated and started', async () => {
+    beforeEach(async () => {
+      await actions.initNewPoolAndTransfer(deployer, rewardPersecond, firstTimestamp, duration);
+      await resetTimestampTo(firstTimestamp);
+    });
+
+    it('approves the staking asset and stakes', async () => {
+      await client.stake(stakeAmount);
+
+      expect((await client.getUserData(alice.address)).userPrincipal).to.equal(stakeAmount);
+    });
+
+    it('returns the same snapshots as the test helpers', async () => {
+      await client.stake(stakeAmount);
+
+      expect(await client.getPoolData()).to.eql(await actions.getPoolData());
+      expect(await client.getUserData(alice.address)).to.eql(await actions.getUserData(alice));
+    });
+
+    it('withdraws the whole principal with MAX_UINT_AMOUNT', async () => {
+      await client.stake(stakeAmount);
+      await client.withdraw(MAX_UINT_AMOUNT);
+
+      expect((await client.getUserData(alice.address)).userPrincipal).to.equal(0);
+    });
+
+    it('decodes InvalidAmount', async () => {
+      expect(await errorOf(client.stake(0))).to.be.instanceOf(InvalidAmountError);
+    });
+
+    it('decodes NotEnoughPrincipal with the user principal', async () => {
+      await client.stake(stakeAmount);
+
+      const error = await errorOf(client.withdraw(stakeAmount.add(1)));
+
+      expect(error).to.be.instanceOf(NotEnoughPrincipalError);
+      expect(error.principal).to.equal(stakeAmount);
+    });
+
+    it('decodes ZeroReward', async () => {
+      expect(await errorOf(client.claim())).to.be.instanceOf(ZeroRewardError);
+    });
+
+    it('decodes NotSuccessor', async () => {
+      await client.stake(stakeAmount);
+
+      expect(await errorOf(client.migrate(stakeAmount, deployer.address))).to.be.instanceOf(
+        NotSuccessorError
+      );
+    });
+  });
+});
+
+describe('parseRevert', () => {
+  const iface = StakingPoolV2__factory.createInterface();
+  const data = iface.encodeErrorResult('NotEnoughPrincipal', [5]);
+
+  it('finds the revert data in the wrapped errors of a JSON-RPC provider', () => {
+    const revert = parseRevert({ message: 'call failed', error: { error: { data } } });
+
+    expect(revert!.name).to.equal('NotEnoughPrincipal');
+    expect(revert!.args).to.eql([BigNumber.from(5)]);
+    expect(parseRevert({ error: { data: { data } } })!.name).to.equal('NotEnoughPrincipal');
+  });
+
+  it('returns undefined for values that are not provider errors', () => {
+    expect(parseRevert(undefined)).to.be.undefined;
+    expect(parseRevert('reverted')).to.be.undefined;
+    expect(parseRevert({ data: 42 })).to.be.undefined;
+  });
+
+  it('describes the outermost reason or message', () => {
+    expect(describeError({ error: { reason: 'Closed' } })).to.equal('Closed');
+    expect(describeError({ message: 'timeout', error: { reason: 'Closed' } })).to.equal('timeout');
+    expect(describeError(42)).to.equal('42');
+  });
+});
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { expect } from 'chai';
+import { providers, utils } from 'ethers';
+import { network, waffle } from 'hardhat';
+import { INDEX_DIR, loadPoolIndex, PoolIndex, syncPoolIndex } from '../utils/indexer';
+import { snapshotFromChain, snapshotFromIndex } from '../utils/snapshot';
+import TestEnv from './types/TestEnv';
+import { RAY, SECONDSPERDAY } from './utils/constants';
+import { createTestActions, TestHelperActions } from './utils/helpers';
+import { setTestEnv } from './utils/testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+describe('pool:snapshot', () => {
+  let testEnv: TestEnv;
+  let actions: TestHelperActions;
+  let index: PoolIndex;
+  let blockNumber: number;
+
+  const provider = waffle.provider;
+  const [deployer, alice, bob] = provider.getWallets();
+  const indexNetwork = 'snapshot-test';
+
+  const rewardPerSecond = utils.parseEther('1');
+  const duration = 30 * SECONDSPERDAY;
+  const startTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    actions = createTestActions(testEnv);
+    await actions.faucetAndApproveReward(deployer, RAY);
+    await actions.faucetAndApproveTarget(alice, RAY);
+    await actions.faucetAndApproveTarget(bob, RAY);
+
+    await resetTimestampTo(startTimestamp);
+    await actions.initNewPoolAndTransfer(deployer, rewardPerSecond, startTimestamp, duration);
+    await actions.stake(alice, utils.parseEther('10'));
+    await actions.stake(bob, utils.parseEther('20'));
+    await advanceTimeTo(startTimestamp + SECONDSPERDAY);
+    await actions.withdraw(alice, utils.parseEther('4'));
+    blockNumber = await provider.getBlockNumber();
+    await advanceTimeTo(startTimestamp + 2 * SECONDSPERDAY);
+
+    // ethers never lets the block number of a provider go back, as it does after the fixture reverts
+    index = await syncPoolIndex(
+      loadPoolIndex(indexNetwork, 'StakingPoolV2_TEST', testEnv.stakingPool.address, 0),
+      new providers.Web3Provider((method, params) => network.provider.send(method, params)),
+      { confirmations: 0, chunkSize: 5000 }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.join(INDEX_DIR, indexNetwork), { recursive: true, force: true });
+  });
+
+  it('replays the index to the stakers state on chain at the block', async () => {
+    const fromIndex = await snapshotFromIndex(testEnv.stakingPool, index, blockNumber);
+    const fromChain = await snapshotFromChain(
+      'StakingPoolV2_TEST',
+      testEnv.stakingPool,
+      0,
+      blockNumber
+    );
+
+    expect(fromIndex.source).to.equal('index');
+    expect(fromIndex.reconciled).to.be.true;
+    expect(fromIndex.totalPrincipal).to.equal(utils.parseEther('26'));
+    expect(fromIndex.stakers).to.eql(fromChain.stakers);
+    expect(fromIndex.totals).to.eql(fromChain.totals);
+  });
+
+  it('reports a replay that disagrees with the chain as not reconciled', async () => {
+    const withoutWithdraw = {
+      ...index,
+      events: index.events.filter((event) => event.name !== 'Withdraw'),
+    };
+
+    const snapshot = await snapshotFromIndex(testEnv.stakingPool, withoutWithdraw, blockNumber);
+
+    expect(snapshot.reconciled).to.be.false;
+    expect(snapshot.totals.principal).to.equal(utils.parseEther('30'));
+    expect(snapshot.totals.stakedBalance).to.equal(utils.parseEther('26'));
+  });
+
+  it('fails when the index is behind the block', async () => {
+    const behind = { ...index, checkpoint: blockNumber - 1 };
+
+    try {
+      await snapshotFromIndex(testEnv.stakingPool, behind, blockNumber);
+      expect.fail('expected the snapshot to fail');
+    } catch (e) {
+      expect((e as Error).message).to.equal(
+        `StakingPoolV2_TEST is indexed up to block ${blockNumber - 1}, behind ${blockNumber}`
+      );
+    }
+  });
+});
@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import hre, { waffle } from 'hardhat';
+import { readOfflineBatch } from '../tasks/utils/offline';
+import { createTaskRunner } from '../tasks/utils/runner';
+import TestEnv from './types/TestEnv';
+import { SECONDSPERDAY } from './utils/constants';
+import { setTestEnv } from './utils/testEnv';
+import { toTimestamp } from './utils/time';
+
+const { loadFixture } = waffle;
+
+describe('tx:sign and tx:broadcast', () => {
+  let testEnv: TestEnv;
+  let dir: string;
+
+  const provider = waffle.provider;
+  const [deployer, alice] = provider.getWallets();
+  const keyEnv = 'TX_TEST_ADMIN';
+
+  const rewardPerSecond = utils.parseEther('1');
+  const startTimestamp = toTimestamp('2022.07.08 10:00:00Z');
+
+  async function fixture() {
+    return await setTestEnv();
+  }
+
+  // Writes the calls of the body to an unsigned file as a task run with --unsigned does
+  const writeUnsigned = async (
+    file: string,
+    body: (send: (method: string, args: unknown[]) => Promise<unknown>) => Promise<void>,
+    gasLimit?: string
+  ) => {
+    const runner = await createTaskRunner(hre, {
+      dryRun: false,
+      unsigned: file,
+      from: deployer.address,
+      gasLimit,
+    });
+    await runner.run(() => body((method, args) => runner.send(testEnv.stakingPool, method, args)));
+  };
+
+  const signAndBroadcast = async (file: string) => {
+    const signed = path.join(dir, 'signed.json');
+    await hre.run('tx:sign', { file, out: signed, keyEnv });
+    await hre.run('tx:broadcast', { file: signed });
+    return signed;
+  };
+
+  beforeEach(async () => {
+    testEnv = await loadFixture(fixture);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tx-test-'));
+    process.env[keyEnv] = deployer.privateKey;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    delete process.env[keyEnv];
+  });
+
+  it('writes the estimated gas of every call and sends the signed batch once', async () => {
+    const file = path.join(dir, 'unsigned.json');
+    const nonce = await provider.getTransactionCount(deployer.address);
+
+    await writeUnsigned(file, async (send) => {
+      await send('setManager', [alice.address]);
+      await send('initNewPool', [rewardPerSecond, startTimestamp, SECONDSPERDAY]);
+    });
+
+    const batch = readOfflineBatch(file);
+    expect(batch.from).to.equal(deployer.address);
+    expect(batch.chainId).to.equal((await provider.getNetwork()).chainId);
+    expect(batch.transactions.map(({ tx }) => tx.nonce)).to.eql([nonce, nonce + 1]);
+    batch.transactions.forEach((transaction) => {
+      expect(transaction.estimatedGas).to.not.be.undefined;
+      expect(transaction.tx.gasLimit).to.equal(transaction.estimatedGas);
+    });
+
+    const signed = await signAndBroadcast(file);
+
+    expect(await testEnv.stakingPool.isManager(alice.address)).to.be.true;
+    expect((await testEnv.stakingPool.getPoolData()).rewardPerSecond).to.equal(rewardPerSecond);
+    // an interrupted broadcast is run again, the mined transactions are skipped
+    await hre.run('tx:broadcast', { file: signed });
+    expect(await provider.getTransactionCount(deployer.address)).to.equal(nonce + 2);
+  });
+
+  it('needs --gas-limit for a call that depends on an earlier one', async () => {
+    const file = path.join(dir, 'unsigned.json');
+    const body = async (send: (method: string, args: unknown[]) => Promise<unknown>) => {
+      await send('initNewPool', [rewardPerSecond, startTimestamp, SECONDSPERDAY]);
+      // reverts with Closed() until initNewPool is mined
+      await send('closePool', []);
+    };
+
+    try {
+      await writeUnsigned(file, body);
+      expect.fail('expected closePool to fail the estimation');
+    } catch (e) {
+      expect((e as Error).message).to.equal(
+        `${testEnv.stakingPool.address}.closePool() fails gas estimation with Closed(), ` +
+          'pass --gas-limit if it depends on an earlier transaction of the task'
+      );
+    }
+    expect(fs.existsSync(file)).to.be.false;
+
+    await writeUnsigned(file, body, '500000');
+
+    const [initNewPool, closePool] = readOfflineBatch(file).transactions;
+    expect(BigNumber.from(initNewPool.estimatedGas).lt(500000)).to.be.true;
+    expect(closePool.estimatedGas).to.be.undefined;
+    expect(initNewPool.tx.gasLimit).to.equal(closePool.tx.gasLimit);
+    expect(closePool.tx.gasLimit).to.equal(BigNumber.from(500000).toHexString());
+
+    await signAndBroadcast(file);
+
+    const { timestamp } = await provider.getBlock('latest');
+    expect((await testEnv.stakingPool.getPoolData()).endTimestamp).to.equal(timestamp);
+  });
+
+  it('refuses a --gas-limit below the estimate', async () => {
+    try {
+      await writeUnsigned(
+        path.join(dir, 'unsigned.json'),
+        async (send) => {
+          await send('setManager', [alice.address]);
+        },
+        '21000'
+      );
+      expect.fail('expected the gas limit to be refused');
+    } catch (e) {
+      expect((e as Error).message).to.match(
+        new RegExp(
+          `^${testEnv.stakingPool.address}.setManager\\(${alice.address}\\) is estimated at \\d+ gas`
+        )
+      );
+    }
+  });
+
+  it('refuses to sign with another key than the one the batch is from', async () => {
+    const file = path.join(dir, 'unsigned.json');
+    await writeUnsigned(file, async (send) => {
+      await send('setManager', [alice.address]);
+    });
+    process.env[keyEnv] = alice.privateKey;
+
+    try {
+      await hre.run('tx:sign', { file, out: path.join(dir, 'signed.json'), keyEnv });
+      expect.fail('expected tx:sign to refuse the key');
+    } catch (e) {
+      expect((e as Error).message).to.equal(
+        `The transactions are from ${deployer.address}, the key is ${alice.address}`
+      );
+    }
+  });
+});
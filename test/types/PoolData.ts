@@ -1,14 +1,4 @@
-import { BigNumber } from 'ethers';
-
-export interface PoolData {
-  rewardPerSecond: BigNumber;
-  rewardIndex: BigNumber;
-  startTimestamp: BigNumber;
-  endTimestamp: BigNumber;
-  totalPrincipal: BigNumber;
-  lastUpdateTimestamp: BigNumber;
-  stakingAssetBalance: BigNumber;
-  rewardAssetBalance: BigNumber;
-}
+import { PoolData } from '../../utils/types';
 
+export type { PoolData };
 export default PoolData;
@@ -1,12 +1,4 @@
-import { BigNumber } from 'ethers';
-
-export interface UserData {
-  userIndex: BigNumber;
-  userReward: BigNumber;
-  userPreviousReward: BigNumber;
-  userPrincipal: BigNumber;
-  stakingAssetBalance: BigNumber;
-  rewardAssetBalance: BigNumber;
-}
+import { UserData } from '../../utils/types';
 
+export type { UserData };
 export default UserData;
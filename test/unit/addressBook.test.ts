@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import path from 'path';
+import explorers from '../../data/explorers';
+import {
+  AddressBookEntry,
+  ADDRESS_BOOK_END,
+  ADDRESS_BOOK_START,
+  buildAddressBook,
+  formatAddressBook,
+  replaceAddressBookSection,
+} from '../../utils/addressBook';
+
+describe('address book', () => {
+  it('labels the pools with the staked token and the asset pair', () => {
+    const book = buildAddressBook('mainnet', explorers);
+
+    expect(book.map((entry) => entry.kind)).to.eql([
+      'pool',
+      'pool',
+      'pool',
+      'pool',
+      'token',
+      'token',
+      'contract',
+    ]);
+    expect(book[1]).to.eql({
+      network: 'mainnet',
+      name: 'StakingPoolV2_ELFI',
+      kind: 'pool',
+      address: '0x24a7fb55e4AC2Cb40944bC560423B496DfA8803F',
+      symbol: 'sELFI',
+      pair: 'ELFI→ELFI',
+      url: 'https://etherscan.io/address/0x24a7fb55e4AC2Cb40944bC560423B496DfA8803F',
+    });
+    // the LP tokens are not in data/assets
+    expect(book[2].pair).to.equal('ELFI_DAI_LP→ELFI');
+  });
+
+  it('rejects a network without an explorer entry', () => {
+    expect(() => buildAddressBook('sepolia', {})).to.throw(
+      'No explorer for sepolia in data/explorers.ts'
+    );
+    expect(() => buildAddressBook('baobab', explorers)).to.throw('No deployments/baobab');
+  });
+
+  it('formats csv and json', () => {
+    const book = buildAddressBook('sepolia', explorers);
+
+    expect(formatAddressBook(book, 'csv').split('\n')).to.eql([
+      'network,name,kind,symbol,pair,address,url',
+      'sepolia,StakingPoolV2_EL,pool,sEL,EL→EL,0x8363cF51a246594fec91DAD4bBC7b66136BBcc1f,https://sepolia.etherscan.io/address/0x8363cF51a246594fec91DAD4bBC7b66136BBcc1f',
+      'sepolia,EL,token,EL,,0xbAb18A10b19316fe2E65259df085bC90E9256C84,https://sepolia.etherscan.io/address/0xbAb18A10b19316fe2E65259df085bC90E9256C84',
+      'sepolia,ERC20Metadata,contract,,,0xA33cfb48338450AEcc3e7dA69E7F99AC923cfc28,https://sepolia.etherscan.io/address/0xA33cfb48338450AEcc3e7dA69E7F99AC923cfc28',
+    ]);
+    expect(JSON.parse(formatAddressBook(book, 'json'))).to.eql(JSON.parse(JSON.stringify(book)));
+  });
+
+  it('keeps the README tables in sync with deployments', () => {
+    const readme = fs.readFileSync(path.join(__dirname, '..', '..', 'README.md'), 'utf8');
+    const book = formatAddressBook(
+      ['mainnet', 'bscMain', 'sepolia'].reduce(
+        (entries, network) => entries.concat(buildAddressBook(network, explorers)),
+        [] as AddressBookEntry[]
+      ),
+      'md'
+    );
+
+    expect(replaceAddressBookSection(readme, book), 'run yarn addresses:readme').to.equal(readme);
+    expect(() => replaceAddressBookSection('# README', book)).to.throw(
+      `No ${ADDRESS_BOOK_START} ... ${ADDRESS_BOOK_END} section`
+    );
+  });
+});
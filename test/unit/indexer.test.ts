@@ -0,0 +1,204 @@
+import fs from 'fs';
+import path from 'path';
+import { expect } from 'chai';
+import { providers, utils } from 'ethers';
+import { StakingPoolV2__factory } from '../../typechain';
+import { IndexedEvent, INDEX_DIR, loadPoolIndex, syncPoolIndex } from '../../utils/indexer';
+
+const network = 'indexer-test';
+const pool = 'StakingPoolV2_TEST';
+const address = '0x00000000000000000000000000000000000000f0';
+const [alice, bob] = [
+  '0x00000000000000000000000000000000000000A1',
+  '0x00000000000000000000000000000000000000B0',
+];
+
+const iface = StakingPoolV2__factory.createInterface();
+
+// A chain of blocks with Stake logs of the pool. Reorged blocks get new hashes and lose their logs.
+const createFakeChain = (length: number) => {
+  let fork = 0;
+  const hashOf = (number: number) => utils.id(`${fork}-${number}`);
+  const blocks: { number: number; hash: string; timestamp: number }[] = [];
+  let logs: providers.Log[] = [];
+  const getLogsCalls: [number, number][] = [];
+  let failingGetLogsCall: number | undefined;
+
+  const mine = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      const number = blocks.length;
+      blocks.push({ number, hash: hashOf(number), timestamp: 1_000_000 + number * 12 });
+    }
+  };
+
+  const stake = (blockNumber: number, user: string, amount: number) => {
+    const event = iface.getEvent('Stake');
+    const { data, topics } = iface.encodeEventLog(event, [user, amount, 0, amount]);
+    logs.push({
+      blockNumber,
+      blockHash: blocks[blockNumber].hash,
+      transactionIndex: 0,
+      removed: false,
+      address,
+      data,
+      topics,
+      transactionHash: utils.id(`${user}-${blockNumber}`),
+      logIndex: 0,
+    });
+  };
+
+  // Replaces the blocks from `fromBlock` on by as many blocks of another fork
+  const reorg = (fromBlock: number) => {
+    const count = blocks.length - fromBlock;
+    fork++;
+    blocks.splice(fromBlock);
+    logs = logs.filter((log) => log.blockNumber < fromBlock);
+    mine(count);
+  };
+
+  const provider = {
+    getBlockNumber: async () => blocks.length - 1,
+    getBlock: async (tag: number | string) =>
+      (typeof tag === 'number' ? blocks[tag] : blocks.find((block) => block.hash === tag)) || null,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+      if (getLogsCalls.length === failingGetLogsCall) {
+        failingGetLogsCall = undefined;
+        throw new Error('connection reset');
+      }
+      getLogsCalls.push([fromBlock, toBlock]);
+      return logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+    },
+  } as unknown as providers.Provider;
+
+  mine(length);
+  return {
+    provider,
+    getLogsCalls,
+    mine,
+    stake,
+    reorg,
+    hashOf,
+    // The nth getLogs call, from zero, fails once
+    failGetLogs: (call: number) => {
+      failingGetLogsCall = call;
+    },
+  };
+};
+
+const describeEvents = (events: IndexedEvent[]) =>
+  events.map((event) => `${event.name} ${event.args.user} ${event.blockNumber}`);
+
+describe('syncPoolIndex', () => {
+  afterEach(() => {
+    fs.rmSync(path.join(INDEX_DIR, network), { recursive: true, force: true });
+  });
+
+  it('resumes an interrupted sync from the saved checkpoint', async () => {
+    const chain = createFakeChain(10);
+    chain.stake(2, alice, 10);
+    chain.stake(7, bob, 20);
+    chain.failGetLogs(1);
+    const options = { confirmations: 2, chunkSize: 3 };
+
+    try {
+      await syncPoolIndex(loadPoolIndex(network, pool, address, 0), chain.provider, options);
+      expect.fail('expected the second chunk to fail');
+    } catch (e) {
+      expect((e as Error).message).to.equal('connection reset');
+    }
+    const interrupted = loadPoolIndex(network, pool, address, 0);
+    expect(interrupted.checkpoint).to.equal(2);
+    expect(describeEvents(interrupted.events)).to.eql([`Stake ${alice} 2`]);
+
+    const index = await syncPoolIndex(interrupted, chain.provider, options);
+
+    expect(chain.getLogsCalls).to.eql([
+      [0, 2],
+      [3, 5],
+      [6, 7],
+    ]);
+    expect(index.checkpoint).to.equal(7);
+    expect(index.checkpointHash).to.equal(chain.hashOf(7));
+    expect(describeEvents(index.events)).to.eql([`Stake ${alice} 2`, `Stake ${bob} 7`]);
+    expect(index.events[1].timestamp).to.equal(1_000_000 + 7 * 12);
+    expect(index.events[1].args).to.eql({
+      user: bob,
+      amount: '20',
+      userIndex: '0',
+      userPrincipal: '20',
+    });
+    expect(loadPoolIndex(network, pool, address, 0)).to.eql(index);
+  });
+
+  it('leaves the blocks of the confirmation window to a later sync, past their reorg', async () => {
+    const chain = createFakeChain(10);
+    chain.stake(3, alice, 10);
+    chain.stake(8, alice, 30);
+    const options = { confirmations: 3, chunkSize: 100 };
+
+    let index = await syncPoolIndex(
+      loadPoolIndex(network, pool, address, 0),
+      chain.provider,
+      options
+    );
+    expect(index.checkpoint).to.equal(6);
+    expect(describeEvents(index.events)).to.eql([`Stake ${alice} 3`]);
+
+    // block 8 gets another hash with the stake of bob instead of alice
+    chain.reorg(8);
+    chain.stake(8, bob, 20);
+    chain.mine(3);
+    index = await syncPoolIndex(index, chain.provider, options);
+
+    expect(index.checkpoint).to.equal(9);
+    expect(index.checkpointHash).to.equal(chain.hashOf(9));
+    expect(describeEvents(index.events)).to.eql([`Stake ${alice} 3`, `Stake ${bob} 8`]);
+  });
+
+  it('rewinds to the last canonical event when an indexed block is reorged', async () => {
+    const chain = createFakeChain(10);
+    chain.stake(2, alice, 10);
+    chain.stake(5, alice, 30);
+    const options = { confirmations: 1, chunkSize: 100 };
+
+    let index = await syncPoolIndex(
+      loadPoolIndex(network, pool, address, 0),
+      chain.provider,
+      options
+    );
+    expect(describeEvents(index.events)).to.eql([`Stake ${alice} 2`, `Stake ${alice} 5`]);
+
+    chain.reorg(4);
+    chain.stake(6, bob, 20);
+    index = await syncPoolIndex(index, chain.provider, options);
+
+    expect(chain.getLogsCalls).to.eql([
+      [0, 8],
+      [3, 8],
+    ]);
+    expect(index.checkpointHash).to.equal(chain.hashOf(8));
+    expect(describeEvents(index.events)).to.eql([`Stake ${alice} 2`, `Stake ${bob} 6`]);
+  });
+
+  it('reindexes from the deployment block when no indexed event is canonical', async () => {
+    const chain = createFakeChain(10);
+    chain.stake(2, alice, 10);
+    const options = { confirmations: 0, chunkSize: 100 };
+
+    let index = await syncPoolIndex(
+      loadPoolIndex(network, pool, address, 1),
+      chain.provider,
+      options
+    );
+
+    chain.reorg(1);
+    chain.stake(3, bob, 20);
+    index = await syncPoolIndex(index, chain.provider, options);
+
+    expect(chain.getLogsCalls).to.eql([
+      [1, 9],
+      [1, 9],
+    ]);
+    expect(describeEvents(index.events)).to.eql([`Stake ${bob} 3`]);
+  });
+});
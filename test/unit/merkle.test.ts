@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { IndexedEvent } from '../../utils/indexer';
+import {
+  allocateBudget,
+  buildMerkleDistribution,
+  getTimeWeightedStakes,
+  hashLeaf,
+} from '../../utils/merkle';
+
+const alice = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const bob = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const event = (
+  name: string,
+  user: string,
+  timestamp: number,
+  amount: number,
+  userPrincipal: number
+): IndexedEvent => ({
+  name,
+  blockNumber: timestamp,
+  blockHash: utils.hexZeroPad('0x01', 32),
+  timestamp,
+  transactionHash: utils.hexZeroPad('0x01', 32),
+  logIndex: 0,
+  args: {
+    user,
+    amount: amount.toString(),
+    userIndex: '0',
+    userPrincipal: userPrincipal.toString(),
+  },
+});
+
+describe('merkle', () => {
+  describe('getTimeWeightedStakes', () => {
+    it('weights the principal by the seconds staked inside the window', () => {
+      const weights = getTimeWeightedStakes(
+        [
+          event('Stake', alice, 50, 10, 10),
+          event('Stake', bob, 150, 30, 30),
+          event('Withdraw', alice, 160, 4, 6),
+          event('Withdraw', bob, 300, 30, 0),
+        ],
+        100,
+        200
+      );
+
+      // alice: 10 * (160 - 100) + 6 * (200 - 160), bob: 30 * (200 - 150)
+      expect(weights[alice]).to.equal(840);
+      expect(weights[bob]).to.equal(1500);
+    });
+
+    it('stops weighting the principal of a user who migrated', () => {
+      const migrate: IndexedEvent = {
+        ...event('Migrate', alice, 140, 0, 0),
+        args: { user: alice, nextPool: bob, amount: '7', withdrawAmount: '3', reward: '0' },
+      };
+      const weights = getTimeWeightedStakes(
+        [event('Stake', alice, 50, 10, 10), migrate, event('Stake', alice, 180, 5, 5)],
+        100,
+        200
+      );
+
+      // 10 * (140 - 100) before the migration, 5 * (200 - 180) after staking again
+      expect(weights[alice]).to.equal(500);
+    });
+  });
+
+  describe('allocateBudget', () => {
+    it('splits the budget pro rata and rounds down, sorted by address', () => {
+      const allocations = allocateBudget(
+        { [alice]: BigNumber.from(1), [bob]: BigNumber.from(2) },
+        BigNumber.from(100)
+      );
+
+      expect(allocations.map((a) => a.account)).to.eql([bob, alice]);
+      expect(allocations.map((a) => a.amount.toNumber())).to.eql([66, 33]);
+    });
+
+    it('skips the accounts without weight', () => {
+      const allocations = allocateBudget(
+        { [alice]: BigNumber.from(0), [bob]: BigNumber.from(2) },
+        BigNumber.from(100)
+      );
+
+      expect(allocations).to.have.length(1);
+      expect(allocations[0].account).to.equal(bob);
+    });
+  });
+
+  describe('buildMerkleDistribution', () => {
+    it('uses the leaf as the root of a single allocation', () => {
+      const distribution = buildMerkleDistribution([{ account: alice, amount: BigNumber.from(5) }]);
+
+      expect(distribution.merkleRoot).to.equal(hashLeaf(0, alice, BigNumber.from(5)));
+      expect(distribution.claims[alice].proof).to.eql([]);
+      expect(distribution.tokenTotal).to.equal('0x05');
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { BigNumber, utils } from 'ethers';
+import { planRewardBudget } from '../../utils/planner';
+
+describe('planner', () => {
+  describe('planRewardBudget', () => {
+    it('rounds the rate down and reports the remainder as dust', () => {
+      const plan = planRewardBudget(BigNumber.from(1000), 30, 0);
+
+      expect(plan.rewardPerSecond).to.equal(33);
+      expect(plan.requiredFunding).to.equal(990);
+      expect(plan.dust).to.equal(10);
+      expect(plan.exactRewardPerSecond).to.equal(utils.parseEther('1000').div(30));
+    });
+
+    it('has no dust if the duration divides the budget', () => {
+      const plan = planRewardBudget(utils.parseEther('2419200'), 28 * 86400);
+
+      expect(plan.rewardPerSecond).to.equal(utils.parseEther('1'));
+      expect(plan.dust).to.equal(0);
+      expect(plan.evenDurations[0]).to.equal(28 * 86400);
+    });
+
+    it('lists nearby durations without dust, nearest first', () => {
+      const plan = planRewardBudget(BigNumber.from(1000), 30, 10, 1);
+
+      expect(plan.evenDurations).to.eql([25, 20, 40]);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import { expect } from 'chai';
+import { constants, utils } from 'ethers';
+import { PoolModel, PoolModelError } from '../../utils/poolModel';
+import { SECONDSPERDAY } from '../utils/constants';
+
+const expectModelError = (fn: () => unknown, error: string) => {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).to.be.instanceOf(PoolModelError);
+    expect((e as PoolModelError).error).to.equal(error);
+    return;
+  }
+  expect.fail(`expected ${error}`);
+};
+
+describe('PoolModel', () => {
+  const [alice, bob] = [
+    '0x00000000000000000000000000000000000000a1',
+    '0x00000000000000000000000000000000000000b0',
+  ];
+  const rewardPerSecond = utils.parseEther('1');
+  const start = 1_000_000;
+  const duration = SECONDSPERDAY;
+  const amount = utils.parseEther('100');
+
+  let model: PoolModel;
+
+  beforeEach(() => {
+    model = new PoolModel();
+    model.initNewPool(rewardPerSecond, start, duration);
+    model.fund(rewardPerSecond.mul(duration));
+  });
+
+  it('reverts before initNewPool', () => {
+    expectModelError(() => new PoolModel().stake(alice, amount, start), 'StakingNotInitiated');
+  });
+
+  it('shares the reward between several users by their principal', () => {
+    model.stake(alice, amount, start);
+    model.stake(bob, amount.mul(3), start + 100);
+
+    // alice alone for 100 seconds, then a quarter of the rest
+    expect(model.getUserReward(alice, start + 500)).to.equal(utils.parseEther('200'));
+    expect(model.getUserReward(bob, start + 500)).to.equal(utils.parseEther('300'));
+    expect(model.getUsers()).to.eql([alice, bob]);
+    expect(model.totalPrincipal).to.equal(amount.mul(4));
+  });
+
+  it('pays the claim out of the reward balance and resets the user', () => {
+    model.stake(alice, amount, start);
+    expect(model.claim(alice, start + 10)).to.equal(utils.parseEther('10'));
+
+    expect(model.getUserData(alice).userReward).to.equal(0);
+    expect(model.getUserReward(alice, start + 10)).to.equal(0);
+    expect(model.getBalances().rewardAssetBalance).to.equal(
+      rewardPerSecond.mul(duration).sub(utils.parseEther('10'))
+    );
+    expectModelError(() => model.claim(alice, start + 10), 'ZeroReward');
+  });
+
+  it('withdraws the whole principal with MaxUint256', () => {
+    model.stake(alice, amount, start);
+    expect(model.withdraw(alice, constants.MaxUint256, start + 10)).to.equal(amount);
+    expect(model.stakerCount).to.equal(0);
+    expectModelError(() => model.withdraw(alice, 1, start + 20), 'NotEnoughPrincipal');
+  });
+
+  it('accrues at the new rate after extendPool', () => {
+    model.stake(alice, amount, start);
+    model.extendPool(rewardPerSecond.mul(2), duration, start + 10);
+
+    expect(model.getPoolData().startTimestamp).to.equal(start + 10);
+    expect(model.getUserReward(alice, start + 20)).to.equal(utils.parseEther('30'));
+  });
+
+  it('stops the rewards and staking at closePool and rejects initNewPool after it', () => {
+    model.stake(alice, amount, start);
+    model.closePool(start + 10);
+
+    expect(model.getUserReward(alice, start + 1000)).to.equal(utils.parseEther('10'));
+    expectModelError(() => model.stake(alice, amount, start + 20), 'Closed');
+    expectModelError(() => model.closePool(start + 20), 'Closed');
+    expectModelError(() => model.initNewPool(rewardPerSecond, start + 100, duration), 'Finished');
+    expect(model.withdraw(alice, amount, start + 20)).to.equal(amount);
+  });
+
+  it('keeps only the settled index through a re-initiated round', () => {
+    model.stake(alice, amount, start);
+    model.stake(bob, amount, start + duration / 2);
+    // like the contract, initNewPool does not settle the index, the unsettled half is dropped
+    model.initNewPool(rewardPerSecond.mul(2), start + duration * 2, duration);
+
+    const settled = rewardPerSecond.mul(duration / 2);
+    expect(model.getUserReward(alice, start + duration * 2)).to.equal(settled);
+    // views revert like the contract before the start
+    expectModelError(() => model.getUserReward(alice, start + duration), 'Panic');
+    expect(model.getUserReward(alice, start + duration * 2 + 10)).to.equal(
+      settled.add(utils.parseEther('10'))
+    );
+  });
+
+  it('blocks claims but not withdrawals in an emergency', () => {
+    model.stake(alice, amount, start);
+    model.setEmergency(true);
+
+    expectModelError(() => model.claim(alice, start + 10), 'Emergency');
+    expect(model.withdraw(alice, amount, start + 10)).to.equal(amount);
+    model.setEmergency(false);
+    expect(model.claim(alice, start + 20)).to.equal(utils.parseEther('10'));
+  });
+
+  it('pays the reward and moves the principal out on migrate', () => {
+    const next = new PoolModel();
+    next.initNewPool(rewardPerSecond, start, duration);
+    model.stake(alice, amount, start);
+
+    const migrated = model.migrate(alice, amount.div(4), start + 10);
+    next.stake(alice, migrated.amount, start + 10);
+
+    expect(migrated.reward).to.equal(utils.parseEther('10'));
+    expect(migrated.withdrawAmount).to.equal(amount.sub(amount.div(4)));
+    expect(model.getUserData(alice).userPrincipal).to.equal(0);
+    expect(model.stakerCount).to.equal(0);
+    expect(next.getUserData(alice).userPrincipal).to.equal(amount.div(4));
+    expectModelError(() => model.migrate(alice, amount, start + 20), 'ZeroPrincipal');
+  });
+
+  it('retrieves only the reward nobody is owed', () => {
+    model.stake(alice, amount, start);
+    model.closePool(start + 10);
+
+    // rounded up, plus a wei for the staker
+    const owedReward = model.getOwedReward(start + 20);
+    expect(owedReward.sub(utils.parseEther('10'))).to.be.within(0, 2);
+    expect(model.retrieveResidue(start + 20)).to.equal(
+      rewardPerSecond.mul(duration).sub(owedReward)
+    );
+    expect(model.retrieveResidue(start + 30)).to.equal(0);
+    expect(model.claim(alice, start + 30)).to.equal(utils.parseEther('10'));
+  });
+
+  it('holds the principal in the reward balance of a same-asset pool', () => {
+    const sameAsset = new PoolModel(true);
+    sameAsset.initNewPool(rewardPerSecond, start, duration);
+    sameAsset.fund(utils.parseEther('50'));
+    sameAsset.stake(alice, amount, start);
+    sameAsset.closePool(start + 10);
+
+    const owedReward = sameAsset.getOwedReward(start + 10);
+    expect(sameAsset.retrieveResidue(start + 10)).to.equal(utils.parseEther('50').sub(owedReward));
+    expect(sameAsset.getBalances().stakingAssetBalance).to.equal(amount.add(owedReward));
+    expect(sameAsset.getBalances().rewardAssetBalance).to.equal(amount.add(owedReward));
+  });
+});
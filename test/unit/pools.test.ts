@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { PoolManifest } from '../../data/types/PoolManifest';
+import { readDeploymentRecord } from '../../utils/deployments';
+import { getPoolConfigs, readPoolManifest } from '../../utils/pools';
+import { DEPLOYMENTS_DIR, getRegistry, TokenName } from '../../utils/registry';
+
+describe('data/pools.json', () => {
+  const lpToken = '0x8F9a5BD715c553a94Eaf0C67ebd2a8Ae2Ad60F9E';
+  const manifest = readPoolManifest();
+
+  Object.keys(manifest).forEach((network) => {
+    it(`lists valid pools on ${network}`, () => {
+      expect(getPoolConfigs(manifest, network)).to.not.be.empty;
+    });
+  });
+
+  it('lists the assets the recorded deployments were deployed with', () => {
+    Object.keys(manifest)
+      .filter((network) => fs.existsSync(path.join(DEPLOYMENTS_DIR, network)))
+      .forEach((network) => {
+        const registry = getRegistry(network);
+        const resolve = (asset: string) =>
+          utils.isAddress(asset) ? asset : registry.getToken(asset as TokenName);
+
+        getPoolConfigs(manifest, network)
+          .filter((config) => registry.pools.includes(config.name))
+          .forEach((config) => {
+            const { args } = readDeploymentRecord(network, config.name);
+            expect(
+              [config.stakingAsset, config.rewardAsset].map(resolve).map(utils.getAddress),
+              `${config.name} on ${network}`
+            ).to.eql(args.map(utils.getAddress));
+          });
+      });
+  });
+
+  it('has no pools on an unlisted network', () => {
+    expect(getPoolConfigs(manifest, 'bscTest')).to.eql([]);
+  });
+
+  it('reports every invalid entry', () => {
+    const invalid: PoolManifest = {
+      mainnet: [
+        { name: 'StakingPoolV2_LP', stakingAsset: lpToken, rewardAsset: 'ELFI' },
+        { name: 'StakingPoolV2_LP', stakingAsset: 'ELFII', rewardAsset: 'ELFI' },
+        { name: 'Pool_EL', stakingAsset: 'EL', rewardAsset: 'EL', managers: ['0x1234'] },
+      ],
+    };
+
+    expect(() => getPoolConfigs(invalid, 'mainnet')).to.throw(
+      'data/pools.json on mainnet: StakingPoolV2_LP is listed twice, ' +
+        'StakingPoolV2_LP: ELFII is neither a token of data/assets nor an address, ' +
+        'Pool_EL does not start with StakingPoolV2_, Pool_EL: 0x1234 is not an address'
+    );
+  });
+
+  it('reports the fields the JSON gets wrong', () => {
+    const invalid = JSON.parse(`{
+      "mainnet": [
+        { "name": "StakingPoolV2_EL", "stakingAsset": "EL", "rewardAsset": "EL", "manager": [] },
+        { "name": "StakingPoolV2_ELFI", "stakingAsset": "ELFI", "managers": "0x1234" },
+        { "stakingAsset": "EL", "rewardAsset": "EL", "owner": 1 },
+        "StakingPoolV2_DAI"
+      ],
+      "bscMain": { "name": "StakingPoolV2_ELFI", "stakingAsset": "ELFI", "rewardAsset": "ELFI" }
+    }`);
+
+    expect(() => getPoolConfigs(invalid, 'mainnet')).to.throw(
+      'data/pools.json on mainnet: StakingPoolV2_EL: unknown field manager, ' +
+        'StakingPoolV2_ELFI: rewardAsset is not a string, ' +
+        'StakingPoolV2_ELFI: managers is not a list of addresses, ' +
+        'pool 2 has no name, pool 2: owner is not a string, pool 3 is not an object'
+    );
+    expect(() => getPoolConfigs(invalid, 'bscMain')).to.throw(
+      'data/pools.json on bscMain: not a list of pools'
+    );
+  });
+});
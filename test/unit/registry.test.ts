@@ -0,0 +1,61 @@
+import { expect } from 'chai';
+import { providers } from 'ethers';
+import elyfi from '../../data/assets/elyfi';
+import { getNamedContracts } from '../../tasks/utils/getNamedContracts';
+import { getChainId, getNetworkName, getRegistry } from '../../utils/registry';
+
+describe('registry', () => {
+  it('resolves the pools from deployments and the tokens from deployments or data/assets', () => {
+    const registry = getRegistry('mainnet');
+
+    expect(registry.pools).to.eql([
+      'StakingPoolV2_EL',
+      'StakingPoolV2_ELFI',
+      'StakingPoolV2_ELFI_DAI_LP',
+      'StakingPoolV2_ELFI_ETH_LP',
+    ]);
+    expect(registry.getPool('StakingPoolV2_ELFI')).to.equal(
+      '0x24a7fb55e4AC2Cb40944bC560423B496DfA8803F'
+    );
+    expect(registry.getAsset('ELFI')).to.eql({ name: 'ELFI', ...elyfi.mainnet });
+    // only deployed on ganache
+    expect(getRegistry('ganache').getToken('ELFI')).to.match(/^0x[0-9a-fA-F]{40}$/);
+  });
+
+  it('keeps the ELFI pool of getNamedContracts apart from the StakingPoolV2_ELFI deployment', async () => {
+    const provider = new providers.JsonRpcProvider('http://127.0.0.1:8545', 1);
+    const contracts = await getNamedContracts(provider, 'mainnet');
+
+    expect(getRegistry('mainnet').getContract('elfiV2StakingPool')).to.equal(
+      '0xCD668B44C7Cf3B63722D5cE5F655De68dD8f2750'
+    );
+    expect(contracts.elfiV2StakingPool.address).to.equal(
+      '0xCD668B44C7Cf3B63722D5cE5F655De68dD8f2750'
+    );
+    expect(contracts.elfiToken.address).to.equal(elyfi.mainnet.address);
+  });
+
+  it('throws for entries missing on the network instead of using another network', async () => {
+    const registry = getRegistry('sepolia');
+    const contracts = await getNamedContracts(
+      new providers.JsonRpcProvider('http://127.0.0.1:8545', 11155111),
+      'sepolia'
+    );
+
+    expect(() => registry.getPool('StakingPoolV2_ELFI')).to.throw(
+      'No StakingPoolV2_ELFI deployment in deployments/sepolia'
+    );
+    expect(() => registry.getToken('ELFI')).to.throw(
+      'No ELFI on sepolia in deployments/sepolia or data/assets'
+    );
+    expect(() => contracts.elfiV2StakingPool).to.throw(
+      'No elfiV2StakingPool on sepolia in data/contracts.ts'
+    );
+  });
+
+  it('maps chain ids to the network names', () => {
+    expect(getNetworkName(1)).to.equal('mainnet');
+    expect(getChainId('ganache')).to.equal(1337);
+    expect(() => getNetworkName(5)).to.throw('Unknown chain id 5');
+  });
+});
@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import { utils } from 'ethers';
+import { InitRoundData } from '../../data/types/InitRoundData';
+import { getRoundStartTimestamp, toInitNewPoolArgs } from '../../utils/rounds';
+import { toTimestamp } from '../utils/time';
+
+describe('rounds', () => {
+  const round: InitRoundData = {
+    rewardPerSecond: utils.parseEther('1'),
+    year: 2022,
+    month: 4,
+    day: 18,
+    hour: 19,
+    minute: 0,
+    timezone: 'Asia/Seoul',
+    duration: 28 * 86400,
+  };
+
+  describe('getRoundStartTimestamp', () => {
+    it('resolves the wall clock in the round timezone', () => {
+      expect(getRoundStartTimestamp(round)).to.equal(toTimestamp('2022.04.18 10:00:00Z'));
+    });
+
+    it('uses a 24-hour clock', () => {
+      expect(getRoundStartTimestamp({ ...round, hour: 7 })).to.equal(
+        toTimestamp('2022.04.17 22:00:00Z')
+      );
+    });
+
+    it('reverts on an unknown timezone', () => {
+      expect(() => getRoundStartTimestamp({ ...round, timezone: 'Asia/Nowhere' })).to.throw(
+        'Unknown timezone'
+      );
+    });
+
+    it('reverts on a date that does not exist', () => {
+      expect(() => getRoundStartTimestamp({ ...round, month: 2, day: 30 })).to.throw('Invalid');
+    });
+
+    it('reverts on a time skipped by DST', () => {
+      const gap = { ...round, timezone: 'Europe/Berlin', month: 3, day: 27, hour: 2, minute: 30 };
+      expect(() => getRoundStartTimestamp(gap)).to.throw('DST gap');
+    });
+
+    it('reverts on a time repeated by DST', () => {
+      const overlap = { ...round, timezone: 'Europe/Berlin', month: 10, day: 30, hour: 2 };
+      expect(() => getRoundStartTimestamp(overlap)).to.throw('DST overlap');
+    });
+  });
+
+  describe('toInitNewPoolArgs', () => {
+    it('returns the initNewPool arguments', () => {
+      const args = toInitNewPoolArgs(round, toTimestamp('2022.04.01 00:00:00Z'));
+      expect(args.rewardPerSecond).to.equal(round.rewardPerSecond);
+      expect(args.startTimestamp).to.equal(toTimestamp('2022.04.18 10:00:00Z'));
+      expect(args.duration).to.equal(round.duration);
+    });
+
+    it('reverts if the round has already started', () => {
+      expect(() => toInitNewPoolArgs(round, toTimestamp('2022.04.18 10:00:00Z'))).to.throw(
+        'in the past'
+      );
+    });
+  });
+});
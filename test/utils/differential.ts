@@ -0,0 +1,436 @@
+import { expect } from 'chai';
+import { BigNumber, utils, Wallet } from 'ethers';
+import { waffle } from 'hardhat';
+import { PoolModel, PoolModelError } from '../../utils/poolModel';
+import { PoolData, TestEnv, UserData } from '../types';
+import { calculateUserReward } from './calculate';
+import { MAX_UINT_AMOUNT, SECONDSPERDAY } from './constants';
+import {
+  expectDataAfterClaim,
+  expectDataAfterStake,
+  expectDataAfterWithdraw,
+  updatePoolData,
+} from './expect';
+import { getPoolData, getUserData } from './helpers';
+import { createInvariantChecker } from './invariants';
+import { setTestEnv } from './testEnv';
+import { advanceTimeTo, resetTimestampTo, toTimestamp } from './time';
+
+// Amounts are wei strings so a printed sequence can be pasted back as a test case
+export type Action =
+  | { type: 'stake'; wallet: number; amount: string }
+  | { type: 'withdraw'; wallet: number; amount: string }
+  | { type: 'claim'; wallet: number }
+  | { type: 'extendPool'; rewardPerSecond: string; duration: number }
+  | { type: 'closePool' }
+  | { type: 'advanceTime'; seconds: number };
+
+export interface Failure {
+  step: number;
+  message: string;
+}
+
+// The data the helpers of test/utils/expect.ts expect, the second oracle next to the PoolModel
+interface ExpectedData {
+  poolData: PoolData;
+  users: UserData[];
+}
+
+export const WALLETS = 4;
+
+const startTimestamp = toTimestamp('2022.07.07 10:00:00Z');
+const rewardPerSecond = utils.parseEther('1');
+const duration = 30 * SECONDSPERDAY;
+
+// The pool is started with far more reward than a sequence can accrue, so claims never run dry
+export const setDifferentialEnv = async (): Promise<TestEnv> => {
+  const testEnv = await setTestEnv();
+  const [deployer, ...wallets] = waffle.provider.getWallets();
+
+  for (const wallet of wallets.slice(0, WALLETS)) {
+    await testEnv.stakingAsset.connect(wallet).faucet();
+    await testEnv.stakingAsset
+      .connect(wallet)
+      .approve(testEnv.stakingPool.address, MAX_UINT_AMOUNT);
+  }
+  await testEnv.stakingPool
+    .connect(deployer)
+    .initNewPool(rewardPerSecond, startTimestamp, duration);
+  await testEnv.rewardAsset
+    .connect(deployer)
+    .transfer(testEnv.stakingPool.address, utils.parseEther('1000000000'));
+  await resetTimestampTo(startTimestamp);
+
+  return testEnv;
+};
+
+// mulberry32, so a seed always generates the same sequence
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Amounts from 1 wei to about 1000 tokens, so rounding in wadMul and wadDiv is exercised too
+const randomAmount = (random: () => number) =>
+  BigNumber.from(1 + Math.floor(random() * 999))
+    .mul(BigNumber.from(10).pow(Math.floor(random() * 19)))
+    .toString();
+
+const randomSeconds = (random: () => number) =>
+  1 +
+  Math.floor(random() * [10, 3600, SECONDSPERDAY, 10 * SECONDSPERDAY][Math.floor(random() * 4)]);
+
+export const generateActions = (seed: number, length: number): Action[] => {
+  const random = createRandom(seed);
+  const wallet = () => Math.floor(random() * WALLETS);
+
+  return Array.from({ length }, (): Action => {
+    const roll = random();
+    if (roll < 0.3) return { type: 'stake', wallet: wallet(), amount: randomAmount(random) };
+    if (roll < 0.5) {
+      const amount = random() < 0.3 ? MAX_UINT_AMOUNT.toString() : randomAmount(random);
+      return { type: 'withdraw', wallet: wallet(), amount };
+    }
+    if (roll < 0.65) return { type: 'claim', wallet: wallet() };
+    if (roll < 0.7) {
+      return {
+        type: 'extendPool',
+        rewardPerSecond: randomAmount(random),
+        duration: randomSeconds(random),
+      };
+    }
+    if (roll < 0.72) return { type: 'closePool' };
+    return { type: 'advanceTime', seconds: randomSeconds(random) };
+  });
+};
+
+const describeAction = (action: Action) => {
+  const fields = Object.keys(action).map((key) => {
+    const value = (action as { [key: string]: unknown })[key];
+    return `${key}: ${typeof value === 'string' ? `'${value}'` : value}`;
+  });
+  return `{ ${fields.join(', ')} }`;
+};
+
+// Names every field the chain and the model disagree on, instead of a deep equal of the objects
+const expectSameData = <T extends object>(label: string, chain: T, model: T) => {
+  const fields = Object.keys(model).filter(
+    (key) => !BigNumber.from(chain[key as keyof T]).eq(BigNumber.from(model[key as keyof T]))
+  );
+  if (fields.length > 0) {
+    const diff = fields.map(
+      (key) => `${key} ${chain[key as keyof T]} on chain, ${model[key as keyof T]} in the model`
+    );
+    throw new Error(`${label}: ${diff.join(', ')}`);
+  }
+};
+
+// Applies the action to the model and returns the error the pool is expected to revert with.
+// The model leaves its state untouched when it throws, like a reverted transaction.
+const applyAction = (
+  action: Action,
+  model: PoolModel,
+  users: string[],
+  balances: BigNumber[],
+  timestamp: BigNumber
+): string | undefined => {
+  try {
+    switch (action.type) {
+      case 'stake':
+        // the model does not hold the wallets, the token transfer reverts first
+        if (model.isOpened && balances[action.wallet].lt(action.amount)) return 'exceeds balance';
+        model.stake(users[action.wallet], action.amount, timestamp);
+        balances[action.wallet] = balances[action.wallet].sub(action.amount);
+        break;
+      case 'withdraw': {
+        const amount = model.withdraw(users[action.wallet], action.amount, timestamp);
+        balances[action.wallet] = balances[action.wallet].add(amount);
+        break;
+      }
+      case 'claim':
+        model.claim(users[action.wallet], timestamp);
+        break;
+      case 'extendPool':
+        model.extendPool(action.rewardPerSecond, action.duration, timestamp);
+        break;
+      case 'closePool':
+        model.closePool(timestamp);
+        break;
+    }
+  } catch (e) {
+    if (e instanceof PoolModelError) return e.error;
+    throw e;
+  }
+  return undefined;
+};
+
+// Applies the helpers of test/utils/expect.ts to an action the pool did not revert
+const applyExpectHelpers = (action: Action, expected: ExpectedData, timestamp: BigNumber) => {
+  switch (action.type) {
+    case 'stake':
+    case 'withdraw':
+    case 'claim': {
+      const user = expected.users[action.wallet];
+      let result: [PoolData, UserData];
+      if (action.type === 'stake') {
+        result = expectDataAfterStake(
+          expected.poolData,
+          user,
+          timestamp,
+          BigNumber.from(action.amount)
+        );
+      } else if (action.type === 'withdraw') {
+        result = expectDataAfterWithdraw(
+          expected.poolData,
+          user,
+          timestamp,
+          BigNumber.from(action.amount)
+        );
+      } else {
+        result = expectDataAfterClaim(expected.poolData, user, timestamp);
+      }
+      [expected.poolData, expected.users[action.wallet]] = result;
+      break;
+    }
+    case 'extendPool':
+      // extendPool does not update any user
+      [expected.poolData] = updatePoolData(
+        expected.poolData,
+        expected.users[0],
+        timestamp,
+        action.duration,
+        BigNumber.from(action.rewardPerSecond),
+        true
+      );
+      break;
+    case 'closePool':
+      expected.poolData = { ...expected.poolData, endTimestamp: timestamp };
+      break;
+  }
+};
+
+const sendAction = (testEnv: TestEnv, deployer: Wallet, wallets: Wallet[], action: Action) => {
+  const { stakingPool } = testEnv;
+  switch (action.type) {
+    case 'stake':
+      return stakingPool.connect(wallets[action.wallet]).stake(action.amount);
+    case 'withdraw':
+      return stakingPool.connect(wallets[action.wallet]).withdraw(action.amount);
+    case 'claim':
+      return stakingPool.connect(wallets[action.wallet]).claim();
+    case 'extendPool':
+      return stakingPool.connect(deployer).extendPool(action.rewardPerSecond, action.duration);
+    case 'closePool':
+      return stakingPool.connect(deployer).closePool();
+    default:
+      throw new Error(`${action.type} is not a transaction`);
+  }
+};
+
+// Compares every view of the pool with the model at the latest block
+const expectSameViews = async (testEnv: TestEnv, model: PoolModel, users: string[]) => {
+  const { stakingPool, stakingAsset, rewardAsset } = testEnv;
+  const now = (await waffle.provider.getBlock('latest')).timestamp;
+
+  expectSameData('getPoolData', await stakingPool.getPoolData(), model.getPoolData());
+  expectSameData(
+    'pool balances',
+    {
+      stakingAssetBalance: await stakingAsset.balanceOf(stakingPool.address),
+      rewardAssetBalance: await rewardAsset.balanceOf(stakingPool.address),
+    },
+    model.getBalances()
+  );
+  expectSameData(
+    'getOwedReward',
+    { owedReward: await stakingPool.getOwedReward() },
+    { owedReward: model.getOwedReward(now) }
+  );
+  for (let i = 0; i < users.length; i++) {
+    expectSameData(
+      `getUserData of wallet ${i}`,
+      await stakingPool.getUserData(users[i]),
+      model.getUserData(users[i])
+    );
+    expectSameData(
+      `getUserReward of wallet ${i}`,
+      { userReward: await stakingPool.getUserReward(users[i]) },
+      { userReward: model.getUserReward(users[i], now) }
+    );
+  }
+};
+
+// Compares getPoolData and getUserData of the test helpers with what the expect helpers expect
+const expectSameHelperData = async (
+  testEnv: TestEnv,
+  expected: ExpectedData,
+  wallets: Wallet[]
+) => {
+  const now = BigNumber.from((await waffle.provider.getBlock('latest')).timestamp);
+
+  expectSameData(
+    'getPoolData of the expect helpers',
+    await getPoolData(testEnv),
+    expected.poolData
+  );
+  for (let i = 0; i < wallets.length; i++) {
+    // getUserReward is a view of the current block
+    expected.users[i] = {
+      ...expected.users[i],
+      userReward: calculateUserReward(expected.poolData, expected.users[i], now),
+    };
+    expectSameData(
+      `getUserData of wallet ${i} of the expect helpers`,
+      await getUserData(testEnv, wallets[i]),
+      expected.users[i]
+    );
+  }
+};
+
+// Runs the actions on a fresh setDifferentialEnv and compares the views of the pool with the
+// PoolModel and the expect helpers after each step, then checks the invariants. Returns the
+// first mismatch.
+export const runActions = async (
+  testEnv: TestEnv,
+  actions: Action[]
+): Promise<Failure | undefined> => {
+  const provider = waffle.provider;
+  const [deployer, ...others] = provider.getWallets();
+  const wallets = others.slice(0, WALLETS);
+  const users = wallets.map((wallet) => wallet.address);
+  const balances = await Promise.all(users.map((user) => testEnv.stakingAsset.balanceOf(user)));
+
+  const model = new PoolModel();
+  model.initNewPool(rewardPerSecond, startTimestamp, duration);
+  model.fund(await testEnv.rewardAsset.balanceOf(testEnv.stakingPool.address));
+  const expected: ExpectedData = {
+    poolData: await getPoolData(testEnv),
+    users: await Promise.all(wallets.map((wallet) => getUserData(testEnv, wallet))),
+  };
+
+  const invariants = createInvariantChecker(
+    testEnv.stakingPool,
+    testEnv.stakingAsset,
+    testEnv.rewardAsset
+  );
+  await invariants.check();
+
+  for (let step = 0; step < actions.length; step++) {
+    const action = actions[step];
+    const latest = (await provider.getBlock('latest')).timestamp;
+
+    try {
+      if (action.type === 'advanceTime') {
+        await advanceTimeTo(latest + action.seconds);
+      } else {
+        // pin the timestamp so a sequence replays the same way every time
+        const timestamp = BigNumber.from(latest + 1);
+        await provider.send('evm_setNextBlockTimestamp', [latest + 1]);
+        const expectedError = applyAction(action, model, users, balances, timestamp);
+
+        if (expectedError !== undefined) {
+          await expect(sendAction(testEnv, deployer, wallets, action)).to.be.revertedWith(
+            expectedError
+          );
+        } else {
+          await sendAction(testEnv, deployer, wallets, action);
+          applyExpectHelpers(action, expected, timestamp);
+        }
+      }
+
+      await expectSameViews(testEnv, model, users);
+      await expectSameHelperData(testEnv, expected, wallets);
+      await invariants.check();
+    } catch (e) {
+      return { step, message: `${describeAction(action)}: ${(e as Error).message}` };
+    }
+  }
+  return undefined;
+};
+
+const simplerActions = (action: Action): Action[] => {
+  switch (action.type) {
+    case 'stake':
+    case 'withdraw':
+      return ['1', utils.parseEther('1').toString()]
+        .filter((amount) => BigNumber.from(amount).lt(action.amount))
+        .map((amount) => ({ ...action, amount }));
+    case 'advanceTime':
+      return [1, 60, SECONDSPERDAY]
+        .filter((seconds) => seconds < action.seconds)
+        .map((seconds) => ({ ...action, seconds }));
+    case 'extendPool':
+      return [{ ...action, rewardPerSecond: rewardPerSecond.toString() }].filter(
+        (simpler) => simpler.rewardPerSecond !== action.rewardPerSecond
+      );
+    default:
+      return [];
+  }
+};
+
+// Removes chunks of steps, then single steps, then simplifies the values left, as long as
+// the sequence still fails. `fails` replays a candidate on a fresh pool.
+export const shrinkActions = async (
+  actions: Action[],
+  fails: (candidate: Action[]) => Promise<Failure | undefined>,
+  maxAttempts = 300
+): Promise<Action[]> => {
+  let attempts = 0;
+  const tryCandidate = async (candidate: Action[]) => {
+    attempts++;
+    const failure = await fails(candidate);
+    // the steps after the failure do not matter
+    return failure !== undefined ? candidate.slice(0, failure.step + 1) : undefined;
+  };
+
+  let current = (await tryCandidate(actions)) || actions;
+  let changed = true;
+  while (changed && attempts < maxAttempts) {
+    changed = false;
+
+    for (let size = Math.floor(current.length / 2); size >= 1; size = Math.floor(size / 2)) {
+      for (let i = 0; i + size <= current.length && attempts < maxAttempts; ) {
+        const smaller = await tryCandidate([...current.slice(0, i), ...current.slice(i + size)]);
+        if (smaller !== undefined) {
+          current = smaller;
+          changed = true;
+        } else {
+          i += size;
+        }
+      }
+    }
+
+    for (let i = 0; i < current.length && attempts < maxAttempts; i++) {
+      for (const simpler of simplerActions(current[i])) {
+        const candidate = await tryCandidate([
+          ...current.slice(0, i),
+          simpler,
+          ...current.slice(i + 1),
+        ]);
+        if (candidate !== undefined) {
+          current = candidate;
+          changed = true;
+          break;
+        }
+      }
+    }
+  }
+  return current;
+};
+
+// Prints the sequence as a test case for test/scenario/differential.test.ts
+export const formatTestCase = (name: string, actions: Action[]) =>
+  [
+    `  it('${name}', async () => {`,
+    '    const failure = await runActions(await loadFixture(fixture), [',
+    ...actions.map((action) => `      ${describeAction(action)},`),
+    '    ]);',
+    '    expect(failure).to.be.undefined;',
+    '  });',
+  ].join('\n');
@@ -93,64 +93,40 @@ export function expectDataAfterMigrate(
   txTimeStamp: BigNumber,
   amount: BigNumber
 ): [[PoolData, UserData], [PoolData, UserData]] {
-  let newFromPoolData = { ...fromPoolData } as PoolData;
-  let newFromUserData = { ...fromUserData } as UserData;
-
-  const withdrawAmount = fromUserData.userPrincipal.sub(amount);
-
-  if (!withdrawAmount.eq(0)) {
-    [newFromPoolData, newFromUserData] = calculateDataAfterUpdate(
-      fromPoolData,
-      fromUserData,
-      txTimeStamp
-    );
-  }
+  const [newFromPoolData, newFromUserData]: [PoolData, UserData] = calculateDataAfterUpdate(
+    fromPoolData,
+    fromUserData,
+    txTimeStamp
+  );
   const [newToPoolData, newToUserData]: [PoolData, UserData] = calculateDataAfterUpdate(
     toPoolData,
     toUserData,
     txTimeStamp
   );
 
-  // reset previous user data
+  // the whole principal leaves the previous pool, the accrued reward is paid
+  const principal = fromUserData.userPrincipal;
+  const withdrawAmount = principal.sub(amount);
+  const accruedReward = newFromUserData.userReward;
+
   newFromUserData.userPreviousReward =
     newFromUserData.userPrincipal =
     newFromUserData.userReward =
-    BigNumber.from(0);
+      BigNumber.from(0);
+  newFromPoolData.totalPrincipal = fromPoolData.totalPrincipal.sub(principal);
+  newFromPoolData.stakingAssetBalance = fromPoolData.stakingAssetBalance.sub(principal);
+  newFromPoolData.rewardAssetBalance = fromPoolData.rewardAssetBalance.sub(accruedReward);
 
-  // update user index for claim
-  const newUserIndexInFromPool = calculateRewardIndex(fromPoolData, txTimeStamp);
-  newFromUserData.userIndex = newUserIndexInFromPool;
+  // the amount is staked into the next pool for the user
+  newToUserData.userPrincipal = toUserData.userPrincipal.add(amount);
+  newToPoolData.totalPrincipal = toPoolData.totalPrincipal.add(amount);
+  newToPoolData.stakingAssetBalance = toPoolData.stakingAssetBalance.add(amount);
 
-  // withdraw user staking asset balance
-  const newUserStakingAssetBalance = fromUserData.stakingAssetBalance.add(withdrawAmount);
+  // both pools see the same wallet
   newFromUserData.stakingAssetBalance = newToUserData.stakingAssetBalance =
-    newUserStakingAssetBalance;
-
-  // withdraw total pool staking asset balance
-  const newPoolStakingAssetBalance = fromPoolData.stakingAssetBalance.sub(withdrawAmount);
-  newFromPoolData.stakingAssetBalance = newToPoolData.stakingAssetBalance =
-    newPoolStakingAssetBalance;
-
-  // sub previous user principal to the previous pool
-  const newTotalPrincipalInFromPool = fromPoolData.totalPrincipal.sub(fromUserData.userPrincipal);
-  newFromPoolData.totalPrincipal = newTotalPrincipalInFromPool;
-
-  // add previous user principal to the new pool
-  const newUserPrincipalInToPool = toUserData.userPrincipal.add(amount);
-  newToUserData.userPrincipal = newUserPrincipalInToPool;
-
-  // add previous pool total principal to the new pool
-  const newTotalPrincipalInToPool = toPoolData.totalPrincipal.add(amount);
-  newToPoolData.totalPrincipal = newTotalPrincipalInToPool;
-
-  // add accrued previous pool reward to user reward asset balance
-  const accruedPreviousPoolReward = calculateUserReward(fromPoolData, fromUserData, txTimeStamp);
-  const newUserRewardAssetBalance = fromUserData.rewardAssetBalance.add(accruedPreviousPoolReward);
-  newFromUserData.rewardAssetBalance = newToUserData.rewardAssetBalance = newUserRewardAssetBalance;
-
-  // sub accrued previous pool reward from pool reward asset balance
-  const newPoolRewardAssetBalance = fromPoolData.rewardAssetBalance.sub(accruedPreviousPoolReward);
-  newFromPoolData.rewardAssetBalance = newToPoolData.rewardAssetBalance = newPoolRewardAssetBalance;
+    fromUserData.stakingAssetBalance.add(withdrawAmount);
+  newFromUserData.rewardAssetBalance = newToUserData.rewardAssetBalance =
+    fromUserData.rewardAssetBalance.add(accruedReward);
 
   return [
     [newFromPoolData, newFromUserData],
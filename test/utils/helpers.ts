@@ -6,6 +6,7 @@ import UserData from '../types/UserData';
 import { expectDataAfterStake, updatePoolData } from '../utils/expect';
 import { getTimestamp } from '../utils/time';
 import { MAX_UINT_AMOUNT } from './constants';
+import { createInvariantChecker } from './invariants';
 
 export type TestHelperActions = {
   faucetAndApproveTarget: (wallet: Wallet, amount?: BigNumberish) => Promise<void>
@@ -19,6 +20,7 @@ export type TestHelperActions = {
     startTimestamp: BigNumberish,
     duration: BigNumberish,
   ) => Promise<void>
+  migrate: (wallet: Wallet, amount: BigNumberish, nextPool: string) => Promise<ethers.ContractTransaction>
   closePool: (wallet: Wallet) => Promise<ethers.ContractTransaction>
   setEmergency: (wallet: Wallet, stop: boolean) => Promise<ethers.ContractTransaction>
 
@@ -33,6 +35,14 @@ export type TestHelperActions = {
 
 export const createTestActions = (testEnv: TestEnv): TestHelperActions => {
   const { stakingAsset, stakingPool, rewardAsset } = testEnv;
+  const invariants = createInvariantChecker(stakingPool, stakingAsset, rewardAsset);
+
+  // Every transaction sent to the pool is followed by the invariant check
+  const checked = async (tx: Promise<ethers.ContractTransaction>) => {
+    const result = await tx;
+    await invariants.check();
+    return result;
+  }
 
   // A target is the token staked.
   const faucetAndApproveTarget = async (
@@ -61,7 +71,7 @@ export const createTestActions = (testEnv: TestEnv): TestHelperActions => {
     wallet: Wallet,
     amount: BigNumberish,
   ) => {
-    return stakingPool.connect(wallet).stake(amount);
+    return checked(stakingPool.connect(wallet).stake(amount));
   }
 
   const initNewPoolAndTransfer = async (
@@ -79,31 +89,38 @@ export const createTestActions = (testEnv: TestEnv): TestHelperActions => {
     await rewardAsset
       .connect(wallet)
       .transfer(stakingPool.address, totalRewardAmount)
+    await invariants.check();
   }
 
   const closePool = (
     wallet: Wallet,
-  ) => stakingPool.connect(wallet).closePool();
+  ) => checked(stakingPool.connect(wallet).closePool());
 
   const setEmergency = (
     wallet: Wallet,
     stop: boolean,
-  ) => stakingPool.connect(wallet).setEmergency(stop);
+  ) => checked(stakingPool.connect(wallet).setEmergency(stop));
 
   const claim = (
     wallet: Wallet
-  ) => stakingPool.connect(wallet).claim();
+  ) => checked(stakingPool.connect(wallet).claim());
 
   const withdraw = (
     wallet: Wallet,
     amount: BigNumberish,
-  ) => stakingPool.connect(wallet).withdraw(amount);
+  ) => checked(stakingPool.connect(wallet).withdraw(amount));
+
+  const migrate = (
+    wallet: Wallet,
+    amount: BigNumberish,
+    nextPool: string,
+  ) => checked(stakingPool.connect(wallet).migrate(amount, nextPool));
 
   const extendPool = (
     wallet: Wallet,
     rewardPerSecond: BigNumber,
     duration: BigNumberish,
-  ) => stakingPool.connect(wallet).extendPool(rewardPerSecond, duration);
+  ) => checked(stakingPool.connect(wallet).extendPool(rewardPerSecond, duration));
 
   // Queries
   const getUserData = (wallet: Wallet) => _getUserData(testEnv, wallet);
@@ -167,6 +184,7 @@ export const createTestActions = (testEnv: TestEnv): TestHelperActions => {
     withdraw,
     claim,
     initNewPoolAndTransfer,
+    migrate,
     closePool,
     setEmergency,
     getUserData,
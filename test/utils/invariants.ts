@@ -0,0 +1,104 @@
+import { expect } from 'chai';
+import { BigNumber, constants } from 'ethers';
+import { ERC20, StakingPoolV2 } from '../../typechain';
+import { WAD } from './constants';
+
+type Token = Pick<ERC20, 'address' | 'balanceOf'>;
+
+export interface InvariantChecker {
+  // Asserts the pool-wide accounting at the latest block
+  check: () => Promise<void>;
+}
+
+interface Snapshot {
+  timestamp: number;
+  rewardPerSecond: BigNumber;
+  startTimestamp: number;
+  endTimestamp: number;
+  totalPrincipal: BigNumber;
+  rewardIndex: BigNumber;
+}
+
+const emittedBetween = (snapshot: Snapshot, timestamp: number) => {
+  const from = Math.max(snapshot.timestamp, snapshot.startTimestamp);
+  const to = Math.min(timestamp, snapshot.endTimestamp);
+  return to > from ? snapshot.rewardPerSecond.mul(to - from) : constants.Zero;
+};
+
+// Checks the accounting across every staker, where the tests of each action look at one user.
+// The reward schedule is followed from check to check, so create the checker on a fresh pool and
+// check after every transaction that can change the schedule.
+export const createInvariantChecker = (
+  stakingPool: StakingPoolV2,
+  stakingAsset: Token,
+  rewardAsset: Token
+): InvariantChecker => {
+  const sameAsset = stakingAsset.address === rewardAsset.address;
+  let previous: Snapshot | undefined;
+  // What rewardPerSecond × elapsed allows, plus the rounding of wadDiv and wadMul
+  let emitted = constants.Zero;
+  let rounding = constants.Zero;
+
+  const check = async () => {
+    const { timestamp } = await stakingPool.provider.getBlock('latest');
+    const poolData = await stakingPool.getPoolData();
+    const users = Array.from(
+      new Set((await stakingPool.queryFilter(stakingPool.filters.Stake())).map((e) => e.args.user))
+    );
+
+    const principals = await Promise.all(
+      users.map(async (user) => (await stakingPool.getUserData(user)).userPrincipal)
+    );
+    const sumOfPrincipal = principals.reduce(
+      (sum, principal) => sum.add(principal),
+      constants.Zero
+    );
+    expect(sumOfPrincipal, 'sum of userPrincipal').to.eq(poolData.totalPrincipal);
+    expect(await stakingPool.totalSupply(), 'totalSupply of the staked token').to.eq(
+      poolData.totalPrincipal
+    );
+
+    // In a same-asset pool the balance is the principal first, the rest is reward
+    const stakingBalance = await stakingAsset.balanceOf(stakingPool.address);
+    expect(stakingBalance, 'staking asset balance').to.be.gte(poolData.totalPrincipal);
+    const rewardBalance = sameAsset
+      ? stakingBalance.sub(poolData.totalPrincipal)
+      : await rewardAsset.balanceOf(stakingPool.address);
+    expect(rewardBalance, 'reward balance').to.be.gte(0);
+
+    if (previous !== undefined) {
+      expect(poolData.rewardIndex, 'rewardIndex').to.be.gte(previous.rewardIndex);
+      emitted = emitted.add(emittedBetween(previous, timestamp));
+      // an index update rounds by up to half a wei per WAD of principal, a user reward by half a wei
+      rounding = rounding.add(previous.totalPrincipal.add(WAD).sub(1).div(WAD)).add(1);
+    }
+
+    // views revert before the start, nothing accrues there anyway
+    if (timestamp >= poolData.startTimestamp.toNumber()) {
+      const rewards = await Promise.all(users.map((user) => stakingPool.getUserReward(user)));
+      const owedReward = rewards.reduce((sum, reward) => sum.add(reward), constants.Zero);
+      const paidEvents = [
+        ...(await stakingPool.queryFilter(stakingPool.filters.Claim())),
+        ...(await stakingPool.queryFilter(stakingPool.filters.Migrate())),
+      ];
+      const paidReward = paidEvents.reduce(
+        (sum, event) => sum.add(event.args.reward),
+        constants.Zero
+      );
+
+      expect(paidReward.add(owedReward), 'paid and owed rewards').to.be.lte(emitted.add(rounding));
+      expect(await stakingPool.getOwedReward(), 'getOwedReward').to.be.gte(owedReward);
+    }
+
+    previous = {
+      timestamp,
+      rewardPerSecond: poolData.rewardPerSecond,
+      startTimestamp: poolData.startTimestamp.toNumber(),
+      endTimestamp: poolData.endTimestamp.toNumber(),
+      totalPrincipal: poolData.totalPrincipal,
+      rewardIndex: poolData.rewardIndex,
+    };
+  };
+
+  return { check };
+};
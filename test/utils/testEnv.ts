@@ -66,3 +66,17 @@ export const setTestEnv = async (): Promise<TestEnv> => {
 
   return testEnv;
 };
+
+// Another pool on the same assets, e.g. the successor of testEnv.stakingPool
+export const setNextTestEnv = async (testEnv: TestEnv): Promise<TestEnv> => {
+  const erc20Metadata = await setERC20Metadata();
+
+  return {
+    ...testEnv,
+    stakingPool: await setStakingPool(
+      testEnv.stakingAsset,
+      testEnv.rewardAsset,
+      erc20Metadata.address,
+    ),
+  };
+};
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { ExplorerMap } from '../data/types/ExplorerMap';
+import { DEPLOYMENTS_DIR, getChainId, getRegistry, TOKENS } from './registry';
+
+export type AddressBookKind = 'pool' | 'token' | 'contract';
+
+export interface AddressBookEntry {
+  network: string;
+  name: string;
+  kind: AddressBookKind;
+  address: string;
+  // The staked token of pools, e.g. sELFI, and the symbol of tokens
+  symbol?: string;
+  // stakingAsset→rewardAsset of pools
+  pair?: string;
+  url?: string;
+}
+
+export type AddressBookFormat = 'md' | 'json' | 'csv';
+
+const KINDS: AddressBookKind[] = ['pool', 'token', 'contract'];
+
+export const ADDRESS_BOOK_START = '<!-- address-book:start -->';
+export const ADDRESS_BOOK_END = '<!-- address-book:end -->';
+
+export const getDeploymentNetworks = (): string[] =>
+  fs
+    .readdirSync(DEPLOYMENTS_DIR)
+    .filter((network) => fs.statSync(path.join(DEPLOYMENTS_DIR, network)).isDirectory())
+    .sort();
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Every contract of deployments/<network>. Assets are labelled with their data/assets symbol or
+// registry name, a staking asset outside the registry (the LP tokens) after the pool staking it.
+export const buildAddressBook = (network: string, explorers: ExplorerMap): AddressBookEntry[] => {
+  const dir = path.join(DEPLOYMENTS_DIR, network);
+  if (!fs.existsSync(dir)) {
+    throw new Error(`No deployments/${network}`);
+  }
+  if (!(network in explorers)) {
+    throw new Error(
+      `No explorer for ${network} in data/explorers.ts, set it to null if it has none`
+    );
+  }
+  const explorer = explorers[network];
+  const assets = getRegistry(network).getAssets();
+  const labelOf = (address: string, fallback: string) => {
+    const asset = assets.find((asset) => asset.address.toLowerCase() === address.toLowerCase());
+    return asset === undefined ? fallback : asset.symbol || asset.name;
+  };
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .map((file): AddressBookEntry => {
+      const name = file.slice(0, -'.json'.length);
+      const deployment: { address: string; args?: string[] } = JSON.parse(
+        fs.readFileSync(path.join(dir, file), 'utf8')
+      );
+      const entry: AddressBookEntry = {
+        network,
+        name,
+        kind: name.startsWith('StakingPoolV2_') ? 'pool' : name in TOKENS ? 'token' : 'contract',
+        address: deployment.address,
+        url: explorer === null ? undefined : `${explorer}${deployment.address}`,
+      };
+
+      if (entry.kind === 'pool' && deployment.args !== undefined) {
+        const [stakingAsset, rewardAsset] = deployment.args;
+        const staking = labelOf(stakingAsset, name.slice('StakingPoolV2_'.length));
+        const reward = labelOf(rewardAsset, shortAddress(rewardAsset));
+        return { ...entry, symbol: `s${staking}`, pair: `${staking}→${reward}` };
+      }
+      if (entry.kind === 'token') {
+        return { ...entry, symbol: labelOf(deployment.address, name) };
+      }
+      return entry;
+    })
+    .sort((a, b) => KINDS.indexOf(a.kind) - KINDS.indexOf(b.kind) || a.name.localeCompare(b.name));
+};
+
+const formatTable = (rows: string[][]): string[] => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  const line = (row: string[]) =>
+    `| ${row.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+  return [
+    line(rows[0]),
+    `|${widths.map((width) => '-'.repeat(width + 2)).join('|')}|`,
+    ...rows.slice(1).map(line),
+  ];
+};
+
+const formatMarkdown = (entries: AddressBookEntry[]): string => {
+  const networks = entries
+    .map((entry) => entry.network)
+    .filter((network, i, all) => all.indexOf(network) === i);
+
+  return networks
+    .map((network) => {
+      const chainId = getChainId(network);
+      const rows = entries
+        .filter((entry) => entry.network === network)
+        .map((entry) => [
+          entry.name,
+          entry.symbol && entry.pair ? `${entry.symbol}: ${entry.pair}` : entry.symbol || '',
+          entry.url ? `[${entry.address}](${entry.url})` : entry.address,
+        ]);
+      return [
+        `### ${network}${chainId === undefined ? '' : ` (chainId: ${chainId})`}`,
+        '',
+        ...formatTable([['Contract', 'Token', 'Address'], ...rows]),
+      ].join('\n');
+    })
+    .join('\n\n');
+};
+
+const CSV_COLUMNS: (keyof AddressBookEntry)[] = [
+  'network',
+  'name',
+  'kind',
+  'symbol',
+  'pair',
+  'address',
+  'url',
+];
+
+const formatCsv = (entries: AddressBookEntry[]): string => {
+  const cell = (value: string | undefined) =>
+    value === undefined ? '' : /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return [
+    CSV_COLUMNS.join(','),
+    ...entries.map((entry) => CSV_COLUMNS.map((column) => cell(entry[column])).join(',')),
+  ].join('\n');
+};
+
+export const formatAddressBook = (
+  entries: AddressBookEntry[],
+  format: AddressBookFormat
+): string => {
+  switch (format) {
+    case 'md':
+      return formatMarkdown(entries);
+    case 'json':
+      return JSON.stringify(entries, null, 2);
+    case 'csv':
+      return formatCsv(entries);
+  }
+};
+
+// Replaces what is between the address book markers of a markdown document
+export const replaceAddressBookSection = (document: string, markdown: string): string => {
+  const start = document.indexOf(ADDRESS_BOOK_START);
+  const end = document.indexOf(ADDRESS_BOOK_END);
+  if (start === -1 || end < start) {
+    throw new Error(`No ${ADDRESS_BOOK_START} ... ${ADDRESS_BOOK_END} section`);
+  }
+  return `${document.slice(
+    0,
+    start + ADDRESS_BOOK_START.length
+  )}\n\n${markdown}\n\n${document.slice(end)}`;
+};
@@ -0,0 +1,41 @@
+import { constants, providers } from 'ethers';
+import { ERC20__factory } from '../typechain';
+import { RegistryAsset } from './registry';
+
+// Calls the views of the ERC20 interface at the asset address and compares the metadata with
+// the registry entry. Returns the problems found, empty if the asset is a valid ERC20.
+export const validateAsset = async (
+  provider: providers.Provider,
+  asset: RegistryAsset
+): Promise<string[]> => {
+  if ((await provider.getCode(asset.address)) === '0x') {
+    return ['no contract at the address'];
+  }
+
+  const token = ERC20__factory.connect(asset.address, provider);
+  const problems: string[] = [];
+  const call = async <T>(name: string, view: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await view();
+    } catch (e) {
+      problems.push(`${name} reverted`);
+      return undefined;
+    }
+  };
+
+  await call('totalSupply()', () => token.totalSupply());
+  await call('balanceOf(address)', () => token.balanceOf(constants.AddressZero));
+  await call('allowance(address,address)', () =>
+    token.allowance(constants.AddressZero, constants.AddressZero)
+  );
+  const decimals = await call('decimals()', () => token.decimals());
+  const symbol = await call('symbol()', () => token.symbol());
+
+  if (asset.decimals !== undefined && decimals !== undefined && decimals !== asset.decimals) {
+    problems.push(`decimals() is ${decimals}, data/assets says ${asset.decimals}`);
+  }
+  if (asset.symbol !== undefined && symbol !== undefined && symbol !== asset.symbol) {
+    problems.push(`symbol() is ${symbol}, data/assets says ${asset.symbol}`);
+  }
+  return problems;
+};
@@ -0,0 +1,232 @@
+import fs from 'fs';
+import path from 'path';
+import { providers, utils } from 'ethers';
+import { Artifact, LinkReferences } from 'hardhat/types';
+import { StakingPoolV2__factory } from '../typechain';
+import { DEPLOYMENTS_DIR } from './registry';
+import { getPoolAccess } from './managers';
+
+// The fields of a hardhat-deploy deployments/<network>/<name>.json the verification reads
+export interface DeploymentRecord {
+  address: string;
+  args: string[];
+  transactionHash: string;
+  receipt: { blockNumber: number };
+  bytecode: string;
+  deployedBytecode: string;
+  solcInputHash: string;
+  libraries?: { [name: string]: string };
+}
+
+export type PoolArtifact = Pick<
+  Artifact,
+  'abi' | 'bytecode' | 'deployedBytecode' | 'linkReferences' | 'deployedLinkReferences'
+>;
+
+// Addresses the deployment should have. Unset entries are not checked, an unset owner or
+// managers is noted.
+export interface PoolExpectation {
+  stakingAsset?: string;
+  rewardAsset?: string;
+  libraries?: { [name: string]: string };
+  owner?: string;
+  managers?: string[];
+}
+
+export interface DeploymentCheck {
+  owner: string;
+  // Drift between the record, the chain and the expectation
+  problems: string[];
+  notes: string[];
+}
+
+export const readDeploymentRecord = (network: string, name: string): DeploymentRecord => {
+  const file = path.join(DEPLOYMENTS_DIR, network, `${name}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No ${name} deployment in deployments/${network}`);
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+};
+
+// The block of the deployment, where the event scans of a pool start. Records without a receipt
+// would have them scan from genesis.
+export const getDeploymentBlock = (
+  name: string,
+  deployment: { receipt?: { blockNumber: number } }
+): number => {
+  if (deployment.receipt === undefined) {
+    throw new Error(`The ${name} deployment record has no receipt to scan its events from`);
+  }
+  return deployment.receipt.blockNumber;
+};
+
+export const linkBytecode = (
+  bytecode: string,
+  linkReferences: LinkReferences,
+  libraries: { [name: string]: string }
+): string => {
+  let linked = bytecode.toLowerCase();
+  Object.values(linkReferences).forEach((references) =>
+    Object.keys(references).forEach((library) => {
+      const address = libraries[library];
+      if (address === undefined) {
+        throw new Error(`No address for the library ${library}`);
+      }
+      references[library].forEach(({ start, length }) => {
+        const at = 2 + start * 2;
+        linked =
+          linked.slice(0, at) + address.slice(2).toLowerCase() + linked.slice(at + length * 2);
+      });
+    })
+  );
+  return linked;
+};
+
+// solc appends the CBOR encoded metadata, whose length is in the last two bytes
+const stripMetadata = (code: string): string => {
+  const metadataLength = parseInt(code.slice(-4), 16);
+  return code.slice(0, code.length - (metadataLength + 2) * 2);
+};
+
+// Compares runtime code without the metadata hash. Immutables are zero PUSH32 in the compiled
+// code and take the value of the deployed one.
+export const isSameRuntimeCode = (compiled: string, deployed: string): boolean => {
+  const expected = stripMetadata(compiled.toLowerCase());
+  const actual = stripMetadata(deployed.toLowerCase());
+  if (expected.length !== actual.length) return false;
+
+  const PUSH1 = 0x60;
+  const PUSH32 = 0x7f;
+  let masked = '';
+  for (let i = 2; i < expected.length; ) {
+    const op = parseInt(expected.slice(i, i + 2), 16);
+    const size = op >= PUSH1 && op <= PUSH32 ? op - PUSH1 + 1 : 0;
+    const end = i + 2 + size * 2;
+    const immediate = expected.slice(i + 2, end);
+    masked +=
+      op === PUSH32 && /^0+$/.test(immediate)
+        ? expected.slice(i, i + 2) + actual.slice(i + 2, end)
+        : expected.slice(i, end);
+    i = end;
+  }
+  return `0x${masked}` === actual;
+};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Checks a StakingPoolV2 deployment record against the chain behind the provider: the creation
+// transaction and the runtime code against the compiled artifact, the assets against the recorded
+// constructor args and the expectation, and the owner and managers.
+export const verifyPoolDeployment = async (
+  provider: providers.Provider,
+  record: DeploymentRecord,
+  artifact: PoolArtifact,
+  expected: PoolExpectation
+): Promise<DeploymentCheck> => {
+  const problems: string[] = [];
+  const notes: string[] = [];
+  const libraries = record.libraries || {};
+
+  const code = await provider.getCode(record.address);
+  if (code === '0x') {
+    return { owner: '', problems: [`no contract at ${record.address}`], notes };
+  }
+
+  Object.keys(expected.libraries || {}).forEach((library) => {
+    const address = expected.libraries![library];
+    if (libraries[library] === undefined || !sameAddress(libraries[library], address)) {
+      problems.push(`${library} is linked to ${libraries[library]}, expected ${address}`);
+    }
+  });
+
+  const constructorArgs = new utils.Interface(artifact.abi)
+    .encodeDeploy(record.args)
+    .slice(2)
+    .toLowerCase();
+  const creation = await provider.getTransaction(record.transactionHash);
+  if (creation === null) {
+    problems.push(`creation transaction ${record.transactionHash} not found`);
+  } else {
+    const receipt = await provider.getTransactionReceipt(record.transactionHash);
+    if (receipt === null) {
+      problems.push(`creation transaction ${record.transactionHash} has no receipt`);
+    } else if (!receipt.contractAddress || !sameAddress(receipt.contractAddress, record.address)) {
+      problems.push(
+        `creation transaction created ${receipt.contractAddress}, not ${record.address}`
+      );
+    }
+    if (
+      ![
+        linkBytecode(artifact.bytecode, artifact.linkReferences, libraries),
+        record.bytecode.toLowerCase(),
+      ].some((bytecode) => creation.data.toLowerCase() === bytecode + constructorArgs)
+    ) {
+      problems.push(
+        'creation transaction differs from the bytecode with the recorded libraries and args'
+      );
+    }
+  }
+
+  const compiled = linkBytecode(
+    artifact.deployedBytecode,
+    artifact.deployedLinkReferences,
+    libraries
+  );
+  if (!isSameRuntimeCode(compiled, code)) {
+    if (!isSameRuntimeCode(record.deployedBytecode, code)) {
+      // the views below may not exist
+      problems.push('runtime bytecode differs from the compiled and the recorded StakingPoolV2');
+      return { owner: '', problems, notes };
+    }
+    notes.push(
+      `runs the StakingPoolV2 recorded with solcInputHash ${record.solcInputHash}, not the current source`
+    );
+  }
+
+  const pool = StakingPoolV2__factory.connect(record.address, provider);
+  const assets: [string, string, string, string | undefined][] = [
+    ['stakingAsset()', await pool.stakingAsset(), record.args[0], expected.stakingAsset],
+    ['rewardAsset()', await pool.rewardAsset(), record.args[1], expected.rewardAsset],
+    ['underlying()', await pool.underlying(), record.args[0], expected.stakingAsset],
+  ];
+  assets.forEach(([view, actual, recorded, registered]) => {
+    if (!sameAddress(actual, recorded)) {
+      problems.push(`${view} is ${actual}, the recorded constructor arg is ${recorded}`);
+    }
+    if (registered !== undefined && !sameAddress(actual, registered)) {
+      problems.push(`${view} is ${actual}, the registry says ${registered}`);
+    }
+  });
+
+  const access = await getPoolAccess(
+    pool,
+    record.receipt.blockNumber,
+    await provider.getBlockNumber()
+  );
+  if (expected.owner === undefined) {
+    notes.push(`the owner ${access.owner} is not checked as none is expected`);
+  } else if (!sameAddress(access.owner, expected.owner)) {
+    problems.push(`owner is ${access.owner}, expected ${expected.owner}`);
+  }
+  access.managers
+    .filter((manager) => !manager.confirmed)
+    .forEach((manager) =>
+      problems.push(`isManager(${manager.address}) disagrees with the SetManager events`)
+    );
+  const managers = access.managers.map((manager) => manager.address);
+  if (expected.managers === undefined) {
+    notes.push(
+      `the managers are not checked as none are expected: ${managers.join(', ') || 'none'}`
+    );
+  } else {
+    expected.managers
+      .filter((manager) => !managers.some((address) => sameAddress(address, manager)))
+      .filter((manager) => !sameAddress(manager, access.owner))
+      .forEach((manager) => problems.push(`${manager} is not a manager`));
+    managers
+      .filter((address) => !expected.managers!.some((manager) => sameAddress(address, manager)))
+      .forEach((address) => problems.push(`${address} is an unexpected manager`));
+  }
+
+  return { owner: access.owner, problems, notes };
+};
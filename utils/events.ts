@@ -0,0 +1,17 @@
+import { Contract, Event, EventFilter } from 'ethers';
+
+// Queries events in block ranges small enough for public RPC limits
+export const queryFilterInChunks = async (
+  contract: Contract,
+  filter: EventFilter,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number = 5000
+): Promise<Event[]> => {
+  const events: Event[] = [];
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    events.push(...(await contract.queryFilter(filter, start, end)));
+  }
+  return events;
+};
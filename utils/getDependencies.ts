@@ -1,35 +1,15 @@
 import '@nomiclabs/hardhat-waffle';
-import { Contract } from 'ethers';
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
-import { AssetData } from '../data/types/AssetData';
+import { ERC20, ERC20__factory } from '../typechain';
+import { getRegistry, TokenName } from './registry';
 
-export const getElToken = async (hre: HardhatRuntimeEnvironment) => {
-  let el: Contract;
-
-  const data: AssetData = require('../data/assets/el').default;
-
-  el = await hre.ethers.getContractAt(data[hre.network.name].abi, data[hre.network.name].address);
-  return el;
-};
-
-export const getElyfi = async (hre: HardhatRuntimeEnvironment) => {
-  let elyfi: Contract;
-
-  const data: AssetData = require('../data/assets/elyfi').default;
-
-  elyfi = await hre.ethers.getContractAt(
-    data[hre.network.name].abi,
-    data[hre.network.name].address
-  );
-  return elyfi;
+const getToken = async (hre: HardhatRuntimeEnvironment, name: TokenName): Promise<ERC20> => {
+  const [signer] = await hre.ethers.getSigners();
+  return ERC20__factory.connect(getRegistry(hre.network.name).getToken(name), signer);
 };
 
-export const getDai = async (hre: HardhatRuntimeEnvironment) => {
-  let dai: Contract;
+export const getElToken = async (hre: HardhatRuntimeEnvironment) => getToken(hre, 'EL');
 
-  const data: AssetData = require('../data/assets/dai').default;
+export const getElyfi = async (hre: HardhatRuntimeEnvironment) => getToken(hre, 'ELFI');
 
-  dai = await hre.ethers.getContractAt(data[hre.network.name].abi, data[hre.network.name].address);
-
-  return dai;
-};
+export const getDai = async (hre: HardhatRuntimeEnvironment) => getToken(hre, 'DAI');
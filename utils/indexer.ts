@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumber, providers, utils } from 'ethers';
+import { StakingPoolLogicV2__factory, StakingPoolV2__factory } from '../typechain';
+
+export const INDEXED_EVENTS = [
+  'Stake',
+  'Withdraw',
+  'Claim',
+  'InitPool',
+  'ExtendPool',
+  'ClosePool',
+  'RetrieveResidue',
+  'SetEmergency',
+  'Migrate',
+  'UpdateStakingPool',
+];
+
+export interface IndexedEvent {
+  name: string;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number;
+  transactionHash: string;
+  logIndex: number;
+  // uint256 values are decimal strings
+  args: { [key: string]: string | boolean };
+}
+
+export interface PoolIndex {
+  network: string;
+  pool: string;
+  address: string;
+  fromBlock: number;
+  // The last block included in the index and its hash, undefined before the first sync
+  checkpoint?: number;
+  checkpointHash?: string;
+  events: IndexedEvent[];
+}
+
+export interface SyncOptions {
+  // Blocks behind the head that are not indexed yet because they may still be reorged
+  confirmations: number;
+  chunkSize: number;
+}
+
+export const INDEX_DIR = path.join(__dirname, '..', '.index');
+
+// The pool emits its own events and the UpdateStakingPool event of StakingPoolLogicV2
+const poolEventsInterface = new utils.Interface([
+  ...StakingPoolV2__factory.abi.filter((fragment) => fragment.type === 'event'),
+  ...StakingPoolLogicV2__factory.abi.filter((fragment) => fragment.type === 'event'),
+]);
+
+export const getIndexPath = (network: string, pool: string) =>
+  path.join(INDEX_DIR, network, `${pool}.json`);
+
+export const loadPoolIndex = (
+  network: string,
+  pool: string,
+  address: string,
+  fromBlock: number
+): PoolIndex => {
+  const file = getIndexPath(network, pool);
+  if (!fs.existsSync(file)) {
+    return { network, pool, address, fromBlock, events: [] };
+  }
+
+  const index: PoolIndex = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (index.address.toLowerCase() !== address.toLowerCase()) {
+    throw new Error(`${file} indexes ${index.address}, not ${address}`);
+  }
+  return index;
+};
+
+export const savePoolIndex = (index: PoolIndex) => {
+  const file = getIndexPath(index.network, index.pool);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  // write then rename so an interrupted sync never leaves a truncated store
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(index, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+};
+
+const serializeArgs = (args: utils.Result, fragment: utils.EventFragment) => {
+  const serialized: IndexedEvent['args'] = {};
+  fragment.inputs.forEach((input, i) => {
+    const value = args[i];
+    serialized[input.name] = BigNumber.isBigNumber(value) ? value.toString() : value;
+  });
+  return serialized;
+};
+
+// Drops the events of blocks that are no longer canonical. A canonical block implies canonical
+// ancestors, so the rewind stops at the newest indexed event whose block hash still matches.
+const rewindReorgedBlocks = async (index: PoolIndex, provider: providers.Provider) => {
+  if (index.checkpoint === undefined) return;
+  const block = await provider.getBlock(index.checkpoint);
+  if (block !== null && block.hash === index.checkpointHash) return;
+
+  while (index.events.length > 0) {
+    const last = index.events[index.events.length - 1];
+    const canonical = await provider.getBlock(last.blockNumber);
+    if (canonical !== null && canonical.hash === last.blockHash) {
+      index.events = index.events.filter((event) => event.blockNumber <= last.blockNumber);
+      index.checkpoint = last.blockNumber;
+      index.checkpointHash = last.blockHash;
+      console.log(`${index.pool}: reorg detected, rewound to block ${last.blockNumber}`);
+      return;
+    }
+    index.events = index.events.filter((event) => event.blockNumber < last.blockNumber);
+  }
+
+  console.log(`${index.pool}: reorg detected, reindexing from block ${index.fromBlock}`);
+  index.checkpoint = index.checkpointHash = undefined;
+};
+
+// Indexes the pool events up to `confirmations` blocks behind the head and saves a checkpoint
+// after every chunk, so an interrupted sync resumes where it stopped.
+export const syncPoolIndex = async (
+  index: PoolIndex,
+  provider: providers.Provider,
+  options: SyncOptions
+): Promise<PoolIndex> => {
+  await rewindReorgedBlocks(index, provider);
+
+  const head = (await provider.getBlockNumber()) - options.confirmations;
+  const timestamps: { [blockHash: string]: number } = {};
+
+  let start = index.checkpoint !== undefined ? index.checkpoint + 1 : index.fromBlock;
+  while (start <= head) {
+    const end = Math.min(start + options.chunkSize - 1, head);
+    const logs = await provider.getLogs({
+      address: index.address,
+      fromBlock: start,
+      toBlock: end,
+    });
+
+    for (const log of logs) {
+      let parsed: utils.LogDescription;
+      try {
+        parsed = poolEventsInterface.parseLog(log);
+      } catch (e) {
+        continue;
+      }
+      if (!INDEXED_EVENTS.includes(parsed.name)) continue;
+
+      if (timestamps[log.blockHash] === undefined) {
+        timestamps[log.blockHash] = (await provider.getBlock(log.blockHash)).timestamp;
+      }
+
+      index.events.push({
+        name: parsed.name,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: timestamps[log.blockHash],
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex,
+        args: serializeArgs(parsed.args, parsed.eventFragment),
+      });
+    }
+
+    index.checkpoint = end;
+    index.checkpointHash = (await provider.getBlock(end)).hash;
+    savePoolIndex(index);
+    start = end + 1;
+  }
+
+  return index;
+};
+
+export const getIndexedEvents = (index: PoolIndex, ...names: string[]): IndexedEvent[] =>
+  index.events.filter((event) => names.length === 0 || names.includes(event.name));
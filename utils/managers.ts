@@ -0,0 +1,50 @@
+import { StakingPoolV2 } from '../typechain';
+import { queryFilterInChunks } from './events';
+
+export interface ManagerEntry {
+  address: string;
+  // The block of the SetManager event that added the manager
+  addedAt: number;
+  // isManager agrees with the events
+  confirmed: boolean;
+}
+
+export interface PoolAccess {
+  owner: string;
+  // Owners are managers without a SetManager event, so they are not listed here
+  managers: ManagerEntry[];
+}
+
+// Replays SetManager and RevokeManager and checks the resulting set with isManager
+export const getPoolAccess = async (
+  pool: StakingPoolV2,
+  fromBlock: number,
+  toBlock: number
+): Promise<PoolAccess> => {
+  const events = [
+    ...(await queryFilterInChunks(pool, pool.filters.SetManager(), fromBlock, toBlock)),
+    ...(await queryFilterInChunks(pool, pool.filters.RevokeManager(), fromBlock, toBlock)),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  const addedAt: { [address: string]: number } = {};
+  events.forEach((event) => {
+    const manager: string = event.args!.manager;
+    if (event.event === 'SetManager') {
+      addedAt[manager] = event.blockNumber;
+    } else {
+      delete addedAt[manager];
+    }
+  });
+
+  const owner = await pool.owner({ blockTag: toBlock });
+  const managers: ManagerEntry[] = [];
+  for (const address of Object.keys(addedAt)) {
+    if (address === owner) continue;
+    managers.push({
+      address,
+      addedAt: addedAt[address],
+      confirmed: await pool.isManager(address, { blockTag: toBlock }),
+    });
+  }
+  return { owner, managers };
+};
@@ -0,0 +1,124 @@
+import { BigNumber, constants, utils } from 'ethers';
+import { IndexedEvent } from './indexer';
+
+export interface Allocation {
+  account: string;
+  amount: BigNumber;
+}
+
+// The format of Uniswap's merkle-distributor, amounts are hex strings
+export interface MerkleDistribution {
+  merkleRoot: string;
+  tokenTotal: string;
+  claims: {
+    [account: string]: {
+      index: number;
+      amount: string;
+      proof: string[];
+    };
+  };
+}
+
+// The sum of principal * seconds staked between the timestamps, per user
+export const getTimeWeightedStakes = (
+  events: IndexedEvent[],
+  fromTimestamp: number,
+  toTimestamp: number
+): { [user: string]: BigNumber } => {
+  const principals: { [user: string]: BigNumber } = {};
+  const updatedAt: { [user: string]: number } = {};
+  const weights: { [user: string]: BigNumber } = {};
+  const clamp = (timestamp: number) => Math.min(Math.max(timestamp, fromTimestamp), toTimestamp);
+
+  const accrue = (user: string, timestamp: number) => {
+    const elapsed = clamp(timestamp) - clamp(updatedAt[user]);
+    weights[user] = (weights[user] || constants.Zero).add(principals[user].mul(elapsed));
+    updatedAt[user] = timestamp;
+  };
+
+  events
+    .filter((event) => ['Stake', 'Withdraw', 'Migrate'].includes(event.name))
+    .forEach((event) => {
+      const user = event.args.user as string;
+      if (principals[user] === undefined) {
+        principals[user] = constants.Zero;
+        updatedAt[user] = event.timestamp;
+      }
+      accrue(user, event.timestamp);
+      // userPrincipal is emitted after the update, migrate moves the whole principal out
+      principals[user] =
+        event.name === 'Migrate' ? constants.Zero : BigNumber.from(event.args.userPrincipal);
+    });
+
+  Object.keys(principals).forEach((user) => accrue(user, toTimestamp));
+  return weights;
+};
+
+// Splits the budget pro rata to the weights. Amounts are rounded down, so the sum can fall
+// short of the budget by at most one wei per account.
+export const allocateBudget = (
+  weights: { [user: string]: BigNumber },
+  budget: BigNumber
+): Allocation[] => {
+  const totalWeight = Object.keys(weights).reduce(
+    (sum, user) => sum.add(weights[user]),
+    constants.Zero
+  );
+  if (totalWeight.isZero()) return [];
+
+  return Object.keys(weights)
+    .map((account) => ({ account, amount: budget.mul(weights[account]).div(totalWeight) }))
+    .filter((allocation) => !allocation.amount.isZero())
+    .sort((a, b) => (a.account.toLowerCase() < b.account.toLowerCase() ? -1 : 1));
+};
+
+export const hashLeaf = (index: number, account: string, amount: BigNumber) =>
+  utils.solidityKeccak256(['uint256', 'address', 'uint256'], [index, account, amount]);
+
+// OpenZeppelin MerkleProof hashes every pair in sorted order
+const hashPair = (a: string, b: string) =>
+  utils.keccak256(utils.concat(a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a]));
+
+export const buildMerkleDistribution = (allocations: Allocation[]): MerkleDistribution => {
+  if (allocations.length === 0) {
+    throw new Error('The distribution has no allocation');
+  }
+
+  const layers = [allocations.map(({ account, amount }, i) => hashLeaf(i, account, amount))];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      // an odd node is carried up unhashed
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const getProof = (index: number) => {
+    const proof: string[] = [];
+    layers.slice(0, -1).forEach((layer) => {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index = Math.floor(index / 2);
+    });
+    return proof;
+  };
+
+  const claims: MerkleDistribution['claims'] = {};
+  allocations.forEach(({ account, amount }, index) => {
+    claims[utils.getAddress(account)] = {
+      index,
+      amount: amount.toHexString(),
+      proof: getProof(index),
+    };
+  });
+
+  return {
+    merkleRoot: layers[layers.length - 1][0],
+    tokenTotal: allocations
+      .reduce((sum, allocation) => sum.add(allocation.amount), constants.Zero)
+      .toHexString(),
+    claims,
+  };
+};
@@ -0,0 +1,49 @@
+import { BigNumber } from 'ethers';
+import { wadDiv } from './math';
+
+export interface RewardPlan {
+  totalReward: BigNumber;
+  duration: number;
+  // The rate passed to initNewPool, rounded down to whole wei
+  rewardPerSecond: BigNumber;
+  // The unrounded rate, WAD scaled
+  exactRewardPerSecond: BigNumber;
+  // The amount the pool distributes over the duration
+  requiredFunding: BigNumber;
+  // The part of the budget that is never distributed and stays for retrieveResidue
+  dust: BigNumber;
+  // Durations near the requested one that leave no dust, nearest first
+  evenDurations: number[];
+}
+
+export const planRewardBudget = (
+  totalReward: BigNumber,
+  duration: number,
+  searchWindow: number = 7 * 86400,
+  searchStep: number = 60
+): RewardPlan => {
+  if (duration <= 0) {
+    throw new Error(`Invalid duration ${duration}`);
+  }
+
+  const rewardPerSecond = totalReward.div(duration);
+  const requiredFunding = rewardPerSecond.mul(duration);
+
+  const evenDurations: number[] = [];
+  for (let offset = 0; offset <= searchWindow; offset += searchStep) {
+    [duration - offset, duration + offset]
+      .filter((candidate, i) => candidate > 0 && (offset !== 0 || i === 0))
+      .filter((candidate) => totalReward.mod(candidate).isZero())
+      .forEach((candidate) => evenDurations.push(candidate));
+  }
+
+  return {
+    totalReward,
+    duration,
+    rewardPerSecond,
+    exactRewardPerSecond: wadDiv(totalReward, BigNumber.from(duration)),
+    requiredFunding,
+    dust: totalReward.sub(requiredFunding),
+    evenDurations,
+  };
+};
@@ -0,0 +1,280 @@
+import { BigNumber, BigNumberish, constants } from 'ethers';
+import { PoolData, UserData } from './types';
+import { calculateRewardIndex, calculateUserReward } from './calculate';
+import { WAD } from './math';
+
+// Thrown where StakingPoolV2 reverts, with the name of the custom error
+export class PoolModelError extends Error {
+  constructor(readonly error: string) {
+    super(`StakingPoolV2 reverts with ${error}`);
+    // keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// The values of getPoolData()
+export interface ModelPoolData {
+  rewardPerSecond: BigNumber;
+  rewardIndex: BigNumber;
+  startTimestamp: BigNumber;
+  endTimestamp: BigNumber;
+  totalPrincipal: BigNumber;
+  lastUpdateTimestamp: BigNumber;
+}
+
+// The values of getUserData(user)
+export interface ModelUserData {
+  userIndex: BigNumber;
+  userReward: BigNumber;
+  userPrincipal: BigNumber;
+}
+
+const emptyUser = (): ModelUserData => ({
+  userIndex: constants.Zero,
+  userReward: constants.Zero,
+  userPrincipal: constants.Zero,
+});
+
+// The whole state of a StakingPoolV2 and every user, changed by the same transitions as the
+// contract. The reward math is utils/calculate.ts. Access control is not modelled.
+export class PoolModel {
+  rewardPerSecond = constants.Zero;
+  rewardIndex = constants.Zero;
+  startTimestamp = constants.Zero;
+  endTimestamp = constants.Zero;
+  totalPrincipal = constants.Zero;
+  lastUpdateTimestamp = constants.Zero;
+  isOpened = false;
+  isFinished = false;
+  emergencyStop = false;
+
+  // The owed reward accounting of retrieveResidue
+  totalUserReward = constants.Zero;
+  totalPrincipalIndex = constants.Zero;
+  stakerCount = 0;
+
+  // The reward asset held besides the principal, moved by fund, claim and retrieveResidue
+  rewardBalance = constants.Zero;
+
+  readonly users: { [user: string]: ModelUserData } = {};
+
+  constructor(readonly sameAsset = false) {}
+
+  /***************** Views ******************/
+
+  getPoolData(): ModelPoolData {
+    return {
+      rewardPerSecond: this.rewardPerSecond,
+      rewardIndex: this.rewardIndex,
+      startTimestamp: this.startTimestamp,
+      endTimestamp: this.endTimestamp,
+      totalPrincipal: this.totalPrincipal,
+      lastUpdateTimestamp: this.lastUpdateTimestamp,
+    };
+  }
+
+  getUserData(user: string): ModelUserData {
+    return { ...(this.users[user] || emptyUser()) };
+  }
+
+  // Every user the pool has seen, in the order of their first transaction
+  getUsers(): string[] {
+    return Object.keys(this.users);
+  }
+
+  getRewardIndex(timestamp: BigNumberish): BigNumber {
+    const currentTimestamp = BigNumber.from(timestamp).lt(this.endTimestamp)
+      ? BigNumber.from(timestamp)
+      : this.endTimestamp;
+    // the contract underflows before the start
+    if (currentTimestamp.lt(this.lastUpdateTimestamp)) throw new PoolModelError('Panic');
+    return calculateRewardIndex(this.toPoolData(), BigNumber.from(timestamp));
+  }
+
+  getUserReward(user: string, timestamp: BigNumberish): BigNumber {
+    this.getRewardIndex(timestamp);
+    return calculateUserReward(this.toPoolData(), this.toUserData(user), BigNumber.from(timestamp));
+  }
+
+  // Rounded up with a wei per staker, like the contract
+  getOwedReward(timestamp: BigNumberish): BigNumber {
+    if (this.totalPrincipal.isZero()) return this.totalUserReward;
+    const accrued = this.getRewardIndex(timestamp)
+      .mul(this.totalPrincipal)
+      .sub(this.totalPrincipalIndex);
+    const accruedReward = accrued.add(WAD).sub(1).div(WAD);
+    return this.totalUserReward.add(accruedReward).add(this.stakerCount);
+  }
+
+  // The balances of the pool, where a same-asset pool holds the principal and the reward together
+  getBalances(): { stakingAssetBalance: BigNumber; rewardAssetBalance: BigNumber } {
+    if (this.sameAsset) {
+      const balance = this.totalPrincipal.add(this.rewardBalance);
+      return { stakingAssetBalance: balance, rewardAssetBalance: balance };
+    }
+    return { stakingAssetBalance: this.totalPrincipal, rewardAssetBalance: this.rewardBalance };
+  }
+
+  /***************** Actions ******************/
+
+  // A reward asset transfer to the pool
+  fund(amount: BigNumberish) {
+    this.rewardBalance = this.rewardBalance.add(amount);
+  }
+
+  stake(user: string, amount: BigNumberish, timestamp: BigNumberish) {
+    this.requireInitiated();
+    if (!this.isOpened) throw new PoolModelError('Closed');
+    if (BigNumber.from(amount).isZero()) throw new PoolModelError('InvalidAmount');
+    this.updateStakingPool(user, timestamp);
+
+    const userData = this.users[user];
+    if (userData.userPrincipal.isZero()) this.stakerCount += 1;
+    userData.userPrincipal = userData.userPrincipal.add(amount);
+    this.totalPrincipal = this.totalPrincipal.add(amount);
+    this.totalPrincipalIndex = this.totalPrincipalIndex.add(userData.userIndex.mul(amount));
+  }
+
+  // Returns the amount withdrawn, MaxUint256 withdraws the whole principal
+  withdraw(user: string, amount: BigNumberish, timestamp: BigNumberish): BigNumber {
+    this.requireInitiated();
+    const principal = this.getUserData(user).userPrincipal;
+    const amountToWithdraw = constants.MaxUint256.eq(amount) ? principal : BigNumber.from(amount);
+    if (principal.lt(amountToWithdraw)) throw new PoolModelError('NotEnoughPrincipal');
+    this.updateStakingPool(user, timestamp);
+
+    const userData = this.users[user];
+    userData.userPrincipal = userData.userPrincipal.sub(amountToWithdraw);
+    this.totalPrincipal = this.totalPrincipal.sub(amountToWithdraw);
+    this.totalPrincipalIndex = this.totalPrincipalIndex.sub(
+      userData.userIndex.mul(amountToWithdraw)
+    );
+    if (!amountToWithdraw.isZero() && userData.userPrincipal.isZero()) this.stakerCount -= 1;
+    return amountToWithdraw;
+  }
+
+  // Returns the reward paid. Like the contract, it does not update the pool index.
+  claim(user: string, timestamp: BigNumberish): BigNumber {
+    this.requireInitiated();
+    if (this.emergencyStop) throw new PoolModelError('Emergency');
+    const reward = this.getUserReward(user, timestamp);
+    if (reward.isZero()) throw new PoolModelError('ZeroReward');
+
+    const userData = this.users[user];
+    const rewardIndex = this.getRewardIndex(timestamp);
+    this.totalUserReward = this.totalUserReward.sub(userData.userReward);
+    this.totalPrincipalIndex = this.totalPrincipalIndex.add(
+      userData.userPrincipal.mul(rewardIndex.sub(userData.userIndex))
+    );
+    userData.userReward = constants.Zero;
+    userData.userIndex = rewardIndex;
+    this.rewardBalance = this.rewardBalance.sub(reward);
+    return reward;
+  }
+
+  // Returns what leaves the pool, stake the amount into the model of the next pool. The approval
+  // of the next pool is not modelled.
+  migrate(
+    user: string,
+    amount: BigNumberish,
+    timestamp: BigNumberish
+  ): { amount: BigNumber; withdrawAmount: BigNumber; reward: BigNumber } {
+    this.requireInitiated();
+    if (this.emergencyStop) throw new PoolModelError('Emergency');
+    const principal = this.getUserData(user).userPrincipal;
+    if (principal.isZero()) throw new PoolModelError('ZeroPrincipal');
+    const amountToMigrate = constants.MaxUint256.eq(amount) ? principal : BigNumber.from(amount);
+    if (amountToMigrate.isZero()) throw new PoolModelError('InvalidAmount');
+    if (principal.lt(amountToMigrate)) throw new PoolModelError('NotEnoughPrincipal');
+    this.updateStakingPool(user, timestamp);
+
+    const userData = this.users[user];
+    const reward = userData.userReward;
+    this.totalUserReward = this.totalUserReward.sub(reward);
+    userData.userReward = constants.Zero;
+
+    userData.userPrincipal = constants.Zero;
+    this.totalPrincipal = this.totalPrincipal.sub(principal);
+    this.totalPrincipalIndex = this.totalPrincipalIndex.sub(userData.userIndex.mul(principal));
+    this.stakerCount -= 1;
+    this.rewardBalance = this.rewardBalance.sub(reward);
+
+    return { amount: amountToMigrate, withdrawAmount: principal.sub(amountToMigrate), reward };
+  }
+
+  initNewPool(rewardPerSecond: BigNumberish, startTimestamp: BigNumberish, duration: BigNumberish) {
+    if (this.isFinished) throw new PoolModelError('Finished');
+    this.rewardPerSecond = BigNumber.from(rewardPerSecond);
+    this.startTimestamp = BigNumber.from(startTimestamp);
+    this.endTimestamp = this.startTimestamp.add(duration);
+    this.lastUpdateTimestamp = this.startTimestamp;
+    this.isOpened = true;
+  }
+
+  extendPool(rewardPerSecond: BigNumberish, duration: BigNumberish, timestamp: BigNumberish) {
+    this.rewardIndex = this.getRewardIndex(timestamp);
+    this.startTimestamp = this.lastUpdateTimestamp = BigNumber.from(timestamp);
+    this.endTimestamp = this.startTimestamp.add(duration);
+    this.rewardPerSecond = BigNumber.from(rewardPerSecond);
+  }
+
+  closePool(timestamp: BigNumberish) {
+    if (!this.isOpened) throw new PoolModelError('Closed');
+    this.endTimestamp = BigNumber.from(timestamp);
+    this.isOpened = false;
+    this.isFinished = true;
+  }
+
+  // Returns the residue sent to the owner
+  retrieveResidue(timestamp: BigNumberish): BigNumber {
+    const balance = this.sameAsset
+      ? this.rewardBalance.add(this.totalPrincipal)
+      : this.rewardBalance;
+    let lockedAmount = this.getOwedReward(timestamp);
+    if (this.sameAsset) lockedAmount = lockedAmount.add(this.totalPrincipal);
+
+    const residue = balance.gt(lockedAmount) ? balance.sub(lockedAmount) : constants.Zero;
+    this.rewardBalance = this.rewardBalance.sub(residue);
+    return residue;
+  }
+
+  setEmergency(stop: boolean) {
+    this.emergencyStop = stop;
+  }
+
+  /***************** Internal ******************/
+
+  private requireInitiated() {
+    if (this.startTimestamp.isZero()) throw new PoolModelError('StakingNotInitiated');
+  }
+
+  private updateStakingPool(user: string, timestamp: BigNumberish) {
+    const userReward = this.getUserReward(user, timestamp);
+    const rewardIndex = this.getRewardIndex(timestamp);
+    const userData = this.users[user] || (this.users[user] = emptyUser());
+
+    this.totalUserReward = this.totalUserReward.add(userReward).sub(userData.userReward);
+    this.totalPrincipalIndex = this.totalPrincipalIndex.add(
+      userData.userPrincipal.mul(rewardIndex.sub(userData.userIndex))
+    );
+    userData.userReward = userReward;
+    this.rewardIndex = userData.userIndex = rewardIndex;
+    this.lastUpdateTimestamp = BigNumber.from(timestamp).lt(this.endTimestamp)
+      ? BigNumber.from(timestamp)
+      : this.endTimestamp;
+  }
+
+  private toPoolData(): PoolData {
+    return { ...this.getPoolData(), ...this.getBalances() };
+  }
+
+  private toUserData(user: string): UserData {
+    const userData = this.getUserData(user);
+    return {
+      ...userData,
+      userPreviousReward: userData.userReward,
+      stakingAssetBalance: constants.Zero,
+      rewardAssetBalance: constants.Zero,
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { BigNumber } from 'ethers';
+import { ERC20__factory, StakingPoolV2 } from '../typechain';
+import { queryFilterInChunks } from './events';
+
+export interface PoolStatus {
+  name: string;
+  address: string;
+  stakingSymbol: string;
+  stakingDecimals: number;
+  rewardSymbol: string;
+  rewardDecimals: number;
+  rewardPerSecond: BigNumber;
+  startTimestamp: number;
+  endTimestamp: number;
+  remaining: number;
+  totalPrincipal: BigNumber;
+  rewardBalance: BigNumber;
+  // rewardBalance without the staked principal when both assets are the same token
+  availableReward: BigNumber;
+  owedReward: BigNumber;
+  // Reward still to accrue until endTimestamp if someone stays staked
+  futureReward: BigNumber;
+  fundedToEnd: boolean;
+}
+
+export const getStakers = async (
+  pool: StakingPoolV2,
+  fromBlock: number,
+  toBlock: number
+): Promise<string[]> => {
+  const events = await queryFilterInChunks(pool, pool.filters.Stake(), fromBlock, toBlock);
+  const stakers = new Set<string>();
+  events.forEach((event) => stakers.add(event.args!.user));
+  return Array.from(stakers);
+};
+
+// The sum of rewards accrued by the stakers but not claimed yet
+export const getOwedReward = async (
+  pool: StakingPoolV2,
+  stakers: string[],
+  blockTag?: number
+): Promise<BigNumber> => {
+  const rewards = await Promise.all(
+    stakers.map((staker) => pool.getUserReward(staker, { blockTag }))
+  );
+  return rewards.reduce((sum, reward) => sum.add(reward), BigNumber.from(0));
+};
+
+// The reward balance that is not principal, for pools where both assets are the same token
+export const getAvailableReward = async (pool: StakingPoolV2, blockTag?: number) => {
+  const rewardAsset = await pool.rewardAsset();
+  const balance = await ERC20__factory.connect(rewardAsset, pool.provider).balanceOf(pool.address, {
+    blockTag,
+  });
+  if (rewardAsset !== (await pool.stakingAsset())) return balance;
+  const poolData = await pool.getPoolData({ blockTag });
+  return balance.sub(poolData.totalPrincipal);
+};
+
+export const getPoolStatus = async (
+  name: string,
+  pool: StakingPoolV2,
+  deploymentBlock: number
+): Promise<PoolStatus> => {
+  const block = await pool.provider.getBlock('latest');
+  const stakingAsset = ERC20__factory.connect(await pool.stakingAsset(), pool.provider);
+  const rewardAsset = ERC20__factory.connect(await pool.rewardAsset(), pool.provider);
+  const poolData = await pool.getPoolData({ blockTag: block.number });
+
+  const stakers = await getStakers(pool, deploymentBlock, block.number);
+  const owedReward = await getOwedReward(pool, stakers, block.number);
+  const rewardBalance = await rewardAsset.balanceOf(pool.address, { blockTag: block.number });
+  const availableReward = await getAvailableReward(pool, block.number);
+
+  const endTimestamp = poolData.endTimestamp.toNumber();
+  const remaining = Math.max(endTimestamp - block.timestamp, 0);
+  const futureReward = poolData.rewardPerSecond.mul(
+    Math.min(remaining, endTimestamp - poolData.startTimestamp.toNumber())
+  );
+
+  return {
+    name,
+    address: pool.address,
+    stakingSymbol: await stakingAsset.symbol(),
+    stakingDecimals: await stakingAsset.decimals(),
+    rewardSymbol: await rewardAsset.symbol(),
+    rewardDecimals: await rewardAsset.decimals(),
+    rewardPerSecond: poolData.rewardPerSecond,
+    startTimestamp: poolData.startTimestamp.toNumber(),
+    endTimestamp,
+    remaining,
+    totalPrincipal: poolData.totalPrincipal,
+    rewardBalance,
+    availableReward,
+    owedReward,
+    futureReward,
+    fundedToEnd: availableReward.gte(owedReward.add(futureReward)),
+  };
+};
+
+export interface ExtendFunding {
+  // The reward balance without principal
+  availableReward: BigNumber;
+  owedReward: BigNumber;
+  // The reward of the current period that has not accrued yet, freed by restarting the pool
+  unaccruedReward: BigNumber;
+  requiredReward: BigNumber;
+  // Zero if the pool covers the new period
+  shortfall: BigNumber;
+}
+
+// Whether the pool holds enough reward for extendPool(rewardPerSecond, duration) after paying
+// every staker what they accrued so far
+export const getExtendFunding = async (
+  pool: StakingPoolV2,
+  deploymentBlock: number,
+  rewardPerSecond: BigNumber,
+  duration: number
+): Promise<ExtendFunding> => {
+  const block = await pool.provider.getBlock('latest');
+  const poolData = await pool.getPoolData({ blockTag: block.number });
+  const stakers = await getStakers(pool, deploymentBlock, block.number);
+  const owedReward = await getOwedReward(pool, stakers, block.number);
+  const availableReward = await getAvailableReward(pool, block.number);
+  const requiredReward = rewardPerSecond.mul(duration);
+
+  const remaining = Math.max(poolData.endTimestamp.toNumber() - block.timestamp, 0);
+  const free = availableReward.sub(owedReward);
+
+  return {
+    availableReward,
+    owedReward,
+    unaccruedReward: poolData.rewardPerSecond.mul(remaining),
+    requiredReward,
+    shortfall: free.gte(requiredReward) ? BigNumber.from(0) : requiredReward.sub(free),
+  };
+};
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { utils } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { PoolConfig, PoolManifest } from '../data/types/PoolManifest';
+import { getRegistry, TokenName, TOKENS } from './registry';
+
+export const POOLS_FILE = path.join(__dirname, '..', 'data', 'pools.json');
+
+const POOL_CONFIG_KEYS = ['name', 'stakingAsset', 'rewardAsset', 'owner', 'managers'];
+
+const isTokenName = (asset: string): asset is TokenName => Object.keys(TOKENS).includes(asset);
+
+// The manifest as written, getPoolConfigs checks the entries of a network
+export const readPoolManifest = (file: string = POOLS_FILE): PoolManifest =>
+  JSON.parse(fs.readFileSync(file, 'utf8'));
+
+// The problems of the fields, which are only typed once checked as the manifest is JSON
+const checkFields = (config: PoolConfig, label: string): string[] => {
+  const problems = Object.keys(config)
+    .filter((key) => !POOL_CONFIG_KEYS.includes(key))
+    .map((key) => `${label}: unknown field ${key}`);
+  if (typeof config.name !== 'string') {
+    problems.push(`${label} has no name`);
+  }
+  (['stakingAsset', 'rewardAsset'] as const)
+    .filter((field) => typeof config[field] !== 'string')
+    .forEach((field) => problems.push(`${label}: ${field} is not a string`));
+  if (config.owner !== undefined && typeof config.owner !== 'string') {
+    problems.push(`${label}: owner is not a string`);
+  }
+  if (
+    config.managers !== undefined &&
+    (!Array.isArray(config.managers) ||
+      config.managers.some((manager) => typeof manager !== 'string'))
+  ) {
+    problems.push(`${label}: managers is not a list of addresses`);
+  }
+  return problems;
+};
+
+// Returns the pools of the network in data/pools.json. Throws with every problem of the list, so a
+// typo fails before the first deployment.
+export const getPoolConfigs = (manifest: PoolManifest, network: string): PoolConfig[] => {
+  const configs = manifest[network] || [];
+  if (!Array.isArray(configs)) {
+    throw new Error(`data/pools.json on ${network}: not a list of pools`);
+  }
+  const problems: string[] = [];
+
+  configs.forEach((config, i) => {
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      problems.push(`pool ${i} is not an object`);
+      return;
+    }
+    const fieldProblems = checkFields(
+      config,
+      typeof config.name === 'string' ? config.name : `pool ${i}`
+    );
+    if (fieldProblems.length > 0) {
+      problems.push(...fieldProblems);
+      return;
+    }
+    if (!config.name.startsWith('StakingPoolV2_')) {
+      problems.push(`${config.name} does not start with StakingPoolV2_`);
+    }
+    if (configs.findIndex((other) => other.name === config.name) !== i) {
+      problems.push(`${config.name} is listed twice`);
+    }
+    [config.stakingAsset, config.rewardAsset].forEach((asset) => {
+      if (!isTokenName(asset) && !utils.isAddress(asset)) {
+        problems.push(`${config.name}: ${asset} is neither a token of data/assets nor an address`);
+      }
+    });
+    [...(config.owner ? [config.owner] : []), ...(config.managers || [])].forEach((account) => {
+      if (!utils.isAddress(account)) {
+        problems.push(`${config.name}: ${account} is not an address`);
+      }
+    });
+  });
+
+  if (problems.length > 0) {
+    throw new Error(`data/pools.json on ${network}: ${problems.join(', ')}`);
+  }
+  return configs;
+};
+
+// Token names resolve through the registry on live networks, and to the deploy/test tokens on
+// the local ones.
+export const resolvePoolAsset = async (
+  hre: HardhatRuntimeEnvironment,
+  asset: string
+): Promise<string> => {
+  if (!isTokenName(asset)) return utils.getAddress(asset);
+  if (hre.network.live) return getRegistry(hre.network.name).getToken(asset);
+  return (await hre.deployments.get(asset)).address;
+};
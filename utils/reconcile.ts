@@ -0,0 +1,122 @@
+import { BigNumber } from 'ethers';
+import { ERC20__factory, StakingPoolV2 } from '../typechain';
+import { IndexedEvent, PoolIndex } from './indexer';
+import { PoolModel } from './poolModel';
+
+// On-chain value minus the replayed value, in wei
+export interface UserDrift {
+  user: string;
+  userIndex: BigNumber;
+  userReward: BigNumber;
+  userPrincipal: BigNumber;
+  accruedReward: BigNumber;
+}
+
+export interface PoolReconciliation {
+  blockNumber: number;
+  replay: PoolModel;
+  rewardIndexDrift: BigNumber;
+  totalPrincipalDrift: BigNumber;
+  // Staking asset held beyond the replayed principal, e.g. sent with a plain transfer. Undefined
+  // when both assets are the same token, whose balance also holds the reward, see pool:residue.
+  principalSurplus?: BigNumber;
+  users: UserDrift[];
+}
+
+// Applies the pool events in order to a PoolModel. Token transfers are not indexed, so only the
+// accounting of getPoolData and getUserData is meaningful, not the balances.
+export const replayPoolEvents = (events: IndexedEvent[]): PoolModel => {
+  const model = new PoolModel();
+
+  events.forEach((event) => {
+    const timestamp = event.timestamp;
+    const args = event.args;
+
+    switch (event.name) {
+      case 'InitPool':
+        model.initNewPool(
+          args.rewardPerSecond as string,
+          args.startTimestamp as string,
+          BigNumber.from(args.endTimestamp).sub(args.startTimestamp as string)
+        );
+        break;
+      case 'Stake':
+        model.stake(args.user as string, args.amount as string, timestamp);
+        break;
+      case 'Withdraw':
+        model.withdraw(args.user as string, args.amount as string, timestamp);
+        break;
+      case 'Claim':
+        model.claim(args.user as string, timestamp);
+        break;
+      case 'Migrate':
+        model.migrate(args.user as string, args.amount as string, timestamp);
+        break;
+      case 'ExtendPool':
+        model.extendPool(args.rewardPerSecond as string, args.duration as string, timestamp);
+        break;
+      case 'ClosePool':
+        model.closePool(timestamp);
+        break;
+      case 'SetEmergency':
+        model.setEmergency(args.emergency as boolean);
+        break;
+    }
+  });
+
+  return model;
+};
+
+// Replays the indexed history and compares it with the pool state at the index checkpoint
+export const reconcilePool = async (
+  pool: StakingPoolV2,
+  index: PoolIndex
+): Promise<PoolReconciliation> => {
+  if (index.checkpoint === undefined) {
+    throw new Error(`${index.pool} is not indexed yet, run pool:index`);
+  }
+  const blockTag = index.checkpoint;
+  const { timestamp } = await pool.provider.getBlock(blockTag);
+  const replay = replayPoolEvents(index.events);
+  const poolData = await pool.getPoolData({ blockTag });
+
+  const users: UserDrift[] = [];
+  for (const user of replay.getUsers()) {
+    const model = replay.getUserData(user);
+    const userData = await pool.getUserData(user, { blockTag });
+    const accruedReward = await pool.getUserReward(user, { blockTag });
+
+    users.push({
+      user,
+      userIndex: userData.userIndex.sub(model.userIndex),
+      userReward: userData.userReward.sub(model.userReward),
+      userPrincipal: userData.userPrincipal.sub(model.userPrincipal),
+      accruedReward: accruedReward.sub(replay.getUserReward(user, timestamp)),
+    });
+  }
+
+  const stakingAsset = await pool.stakingAsset({ blockTag });
+  let principalSurplus: BigNumber | undefined;
+  if (stakingAsset !== (await pool.rewardAsset({ blockTag }))) {
+    const balance = await ERC20__factory.connect(stakingAsset, pool.provider).balanceOf(
+      pool.address,
+      { blockTag }
+    );
+    principalSurplus = balance.sub(replay.totalPrincipal);
+  }
+
+  return {
+    blockNumber: blockTag,
+    replay,
+    rewardIndexDrift: poolData.rewardIndex.sub(replay.rewardIndex),
+    totalPrincipalDrift: poolData.totalPrincipal.sub(replay.totalPrincipal),
+    principalSurplus,
+    users,
+  };
+};
+
+export const hasDrift = (drift: UserDrift) =>
+  !drift.userIndex.isZero() ||
+  !drift.userReward.isZero() ||
+  !drift.userPrincipal.isZero() ||
+  !drift.accruedReward.isZero();
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import path from 'path';
+import contracts from '../data/contracts';
+import { AssetData } from '../data/types/AssetData';
+import { Network } from '../data/types/Network';
+import dai from '../data/assets/dai';
+import el from '../data/assets/el';
+import elyfi from '../data/assets/elyfi';
+import usdt from '../data/assets/usdt';
+import weth from '../data/assets/weth';
+
+export const TOKENS = {
+  EL: el,
+  ELFI: elyfi,
+  DAI: dai,
+  USDT: usdt,
+  WETH: weth,
+};
+
+export type TokenName = keyof typeof TOKENS;
+
+const CHAIN_IDS: { [network: string]: number } = {
+  [Network.mainnet]: 1,
+  [Network.ropsten]: 3,
+  [Network.rinkeby]: 4,
+  [Network.kovan]: 42,
+  [Network.bscMain]: 56,
+  [Network.bscTest]: 97,
+  [Network.ganache]: 1337,
+  [Network.hardhat]: 31337,
+  [Network.sepolia]: 11155111,
+};
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, '..', 'deployments');
+
+// decimals and symbol are only known for the tokens listed in data/assets
+export interface RegistryAsset {
+  name: TokenName;
+  address: string;
+  decimals?: number;
+  symbol?: string;
+}
+
+export interface NetworkRegistry {
+  network: string;
+  // StakingPoolV2_* deployments
+  pools: string[];
+  // Every token with an address on the network
+  getAssets: () => RegistryAsset[];
+  getAsset: (name: TokenName) => RegistryAsset;
+  getToken: (name: TokenName) => string;
+  getPool: (name: string) => string;
+  // Contracts of data/contracts.ts
+  getContract: (name: string) => string;
+}
+
+export const getNetworkName = (chainId: number): string => {
+  const network = Object.keys(CHAIN_IDS).find((name) => CHAIN_IDS[name] === chainId);
+  if (network === undefined) {
+    throw new Error(`Unknown chain id ${chainId}, pass the network name explicitly`);
+  }
+  return network;
+};
+
+export const getChainId = (network: string): number | undefined => CHAIN_IDS[network];
+
+const readDeploymentAddress = (network: string, name: string): string | undefined => {
+  const file = path.join(DEPLOYMENTS_DIR, network, `${name}.json`);
+  if (!fs.existsSync(file)) return undefined;
+  return JSON.parse(fs.readFileSync(file, 'utf8')).address;
+};
+
+// Resolves tokens from deployments/<network>/<token>.json or data/assets, pools from
+// deployments/<network> and other contracts from data/contracts.ts. A missing entry throws instead
+// of falling back to another network.
+export const getRegistry = (network: string): NetworkRegistry => {
+  const deploymentsDir = path.join(DEPLOYMENTS_DIR, network);
+  const pools = fs.existsSync(deploymentsDir)
+    ? fs
+        .readdirSync(deploymentsDir)
+        .filter((file) => file.startsWith('StakingPoolV2_') && file.endsWith('.json'))
+        .map((file) => file.slice(0, -'.json'.length))
+    : [];
+
+  const findAsset = (name: TokenName): RegistryAsset | undefined => {
+    const listed: AssetData[string] | undefined = TOKENS[name][network];
+    const deployed = readDeploymentAddress(network, name);
+
+    if (deployed && listed && deployed.toLowerCase() !== listed.address.toLowerCase()) {
+      throw new Error(
+        `${name} on ${network} is ${deployed} in deployments but ${listed.address} in data/assets`
+      );
+    }
+    if (listed !== undefined) return { name, ...listed };
+    if (deployed !== undefined) return { name, address: deployed };
+    return undefined;
+  };
+
+  const getAsset = (name: TokenName) => {
+    const asset = findAsset(name);
+    if (asset === undefined) {
+      throw new Error(`No ${name} on ${network} in deployments/${network} or data/assets`);
+    }
+    return asset;
+  };
+
+  const getAssets = () =>
+    (Object.keys(TOKENS) as TokenName[])
+      .map(findAsset)
+      .filter((asset): asset is RegistryAsset => asset !== undefined);
+
+  const getPool = (name: string) => {
+    const address = pools.includes(name) ? readDeploymentAddress(network, name) : undefined;
+    if (address === undefined) {
+      throw new Error(`No ${name} deployment in deployments/${network}`);
+    }
+    return address;
+  };
+
+  const getContract = (name: string) => {
+    const address = contracts[name] && contracts[name][network];
+    if (address === undefined) {
+      throw new Error(`No ${name} on ${network} in data/contracts.ts`);
+    }
+    return address;
+  };
+
+  return {
+    network,
+    pools,
+    getAssets,
+    getAsset,
+    getToken: (name) => getAsset(name).address,
+    getPool,
+    getContract,
+  };
+};
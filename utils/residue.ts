@@ -0,0 +1,74 @@
+import { BigNumber, constants, errors } from 'ethers';
+import { ERC20__factory, StakingPoolV2 } from '../typechain';
+import { PoolIndex } from './indexer';
+import { replayPoolEvents } from './reconcile';
+
+export interface ResidueReport {
+  blockNumber: number;
+  rewardBalance: BigNumber;
+  // Principal held in the reward balance, zero when the assets differ
+  lockedPrincipal: BigNumber;
+  // Rewards the replayed stakers accrued and did not claim
+  owedReward: BigNumber;
+  // What retrieveResidue can take without stranding user rewards
+  safeResidue: BigNumber;
+  // What retrieveResidue takes on this pool, pools deployed before getOwedReward take everything
+  // but the principal
+  contractResidue: BigNumber;
+  tracksOwedReward: boolean;
+}
+
+const positive = (amount: BigNumber) => (amount.gt(0) ? amount : constants.Zero);
+
+// A call to a function the contract does not have reverts without data
+const isMissingFunction = (error: unknown) => {
+  const { code, data } = error as { code?: unknown; data?: unknown };
+  return code === errors.CALL_EXCEPTION && (data === undefined || data === '0x');
+};
+
+// Replays the indexed history through the PoolModel to get the owed rewards at the
+// index checkpoint, independently of the contract accounting
+export const getResidueReport = async (
+  pool: StakingPoolV2,
+  index: PoolIndex
+): Promise<ResidueReport> => {
+  if (index.checkpoint === undefined) {
+    throw new Error(`${index.pool} is not indexed yet, run pool:index`);
+  }
+  const blockTag = index.checkpoint;
+  const { timestamp } = await pool.provider.getBlock(blockTag);
+  const replay = replayPoolEvents(index.events);
+  const owedReward = replay
+    .getUsers()
+    .reduce((sum, user) => sum.add(replay.getUserReward(user, timestamp)), constants.Zero);
+
+  const rewardAsset = await pool.rewardAsset({ blockTag });
+  const rewardBalance = await ERC20__factory.connect(rewardAsset, pool.provider).balanceOf(
+    pool.address,
+    { blockTag }
+  );
+  const lockedPrincipal =
+    rewardAsset === (await pool.stakingAsset({ blockTag }))
+      ? replay.totalPrincipal
+      : constants.Zero;
+
+  let tracksOwedReward = true;
+  let contractOwedReward = constants.Zero;
+  try {
+    contractOwedReward = await pool.getOwedReward({ blockTag });
+  } catch (e) {
+    // the pool was deployed before getOwedReward, anything else is a failure of the call
+    if (!isMissingFunction(e)) throw e;
+    tracksOwedReward = false;
+  }
+
+  return {
+    blockNumber: blockTag,
+    rewardBalance,
+    lockedPrincipal,
+    owedReward,
+    safeResidue: positive(rewardBalance.sub(lockedPrincipal).sub(owedReward)),
+    contractResidue: positive(rewardBalance.sub(lockedPrincipal).sub(contractOwedReward)),
+    tracksOwedReward,
+  };
+};
@@ -0,0 +1,92 @@
+import { BigNumber } from 'ethers';
+import moment from 'moment';
+import 'moment-timezone';
+import { InitRoundData } from '../data/types/InitRoundData';
+import { RoundCatalogue } from '../data/types/RoundCatalogue';
+
+export interface InitNewPoolArgs {
+  rewardPerSecond: BigNumber;
+  startTimestamp: number;
+  duration: number;
+}
+
+const WALL_CLOCK_FORMAT = 'YYYY-MM-DD HH:mm';
+
+export const formatRoundStart = (round: InitRoundData): string => {
+  const pad = (n: number) => (n < 10 ? `0${n}` : `${n}`);
+  return `${round.year}-${pad(round.month)}-${pad(round.day)} ${pad(round.hour)}:${pad(
+    round.minute
+  )} ${round.timezone}`;
+};
+
+// Resolves the wall-clock start of the round to a unix timestamp.
+// Throws if the time is skipped or repeated by a DST transition in the round's timezone.
+export const getRoundStartTimestamp = (round: InitRoundData): number => {
+  if (moment.tz.zone(round.timezone) === null) {
+    throw new Error(`Unknown timezone ${round.timezone}`);
+  }
+
+  const wallClock = formatRoundStart(round).slice(0, WALL_CLOCK_FORMAT.length);
+  const startAt = moment.tz(wallClock, WALL_CLOCK_FORMAT, true, round.timezone);
+
+  if (!startAt.isValid()) {
+    throw new Error(`Invalid round start ${formatRoundStart(round)}`);
+  }
+  if (startAt.format(WALL_CLOCK_FORMAT) !== wallClock) {
+    throw new Error(`Round start ${formatRoundStart(round)} does not exist (DST gap)`);
+  }
+
+  // Any other instant within two hours that shows the same wall clock makes it ambiguous.
+  for (let offset = -7200; offset <= 7200; offset += 900) {
+    if (offset === 0) continue;
+    const other = moment.unix(startAt.unix() + offset).tz(round.timezone);
+    if (other.format(WALL_CLOCK_FORMAT) === wallClock) {
+      throw new Error(`Round start ${formatRoundStart(round)} is ambiguous (DST overlap)`);
+    }
+  }
+
+  return startAt.unix();
+};
+
+// Converts a round to the arguments of StakingPoolV2.initNewPool.
+// Rounds starting at or before `now` are rejected.
+export const toInitNewPoolArgs = (
+  round: InitRoundData,
+  now: number = moment().unix()
+): InitNewPoolArgs => {
+  const startTimestamp = getRoundStartTimestamp(round);
+
+  if (startTimestamp <= now) {
+    throw new Error(`Round start ${formatRoundStart(round)} is in the past`);
+  }
+  if (round.duration <= 0) {
+    throw new Error(`Invalid round duration ${round.duration}`);
+  }
+
+  return {
+    rewardPerSecond: round.rewardPerSecond,
+    startTimestamp,
+    duration: round.duration,
+  };
+};
+
+export const getPoolRounds = (
+  catalogue: RoundCatalogue,
+  network: string,
+  pool: string
+): InitRoundData[] => {
+  const rounds = catalogue[network]?.[pool];
+  if (rounds === undefined || rounds.length === 0) {
+    throw new Error(`No rounds for ${pool} on ${network} in data/rounds.ts`);
+  }
+  return rounds;
+};
+
+export const getLatestRound = (
+  catalogue: RoundCatalogue,
+  network: string,
+  pool: string
+): InitRoundData => {
+  const rounds = getPoolRounds(catalogue, network, pool);
+  return rounds[rounds.length - 1];
+};
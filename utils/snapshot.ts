@@ -0,0 +1,148 @@
+import { BigNumber, constants, utils } from 'ethers';
+import { ERC20__factory, StakingPoolV2 } from '../typechain';
+import { PoolIndex } from './indexer';
+import { getStakers } from './poolStatus';
+import { replayPoolEvents } from './reconcile';
+
+export interface StakerSnapshot {
+  user: string;
+  principal: BigNumber;
+  accruedReward: BigNumber;
+  // StakedElyfiToken balance and the votes delegated to the user
+  stakedBalance: BigNumber;
+  votes: BigNumber;
+}
+
+export interface PoolSnapshot {
+  name: string;
+  address: string;
+  blockNumber: number;
+  timestamp: number;
+  source: 'archive' | 'index';
+  stakingDecimals: number;
+  rewardDecimals: number;
+  totalPrincipal: BigNumber;
+  totals: Omit<StakerSnapshot, 'user'>;
+  // Whether every principal is the staked balance on chain, and they sum to totalPrincipal
+  reconciled: boolean;
+  stakers: StakerSnapshot[];
+}
+
+const createPoolSnapshot = async (
+  name: string,
+  pool: StakingPoolV2,
+  blockNumber: number,
+  source: PoolSnapshot['source'],
+  totalPrincipal: BigNumber,
+  stakers: StakerSnapshot[]
+): Promise<PoolSnapshot> => {
+  const sum = (key: keyof Omit<StakerSnapshot, 'user'>) =>
+    stakers.reduce((total, staker) => total.add(staker[key]), constants.Zero);
+  const totals = {
+    principal: sum('principal'),
+    accruedReward: sum('accruedReward'),
+    stakedBalance: sum('stakedBalance'),
+    votes: sum('votes'),
+  };
+  const stakingAsset = ERC20__factory.connect(await pool.stakingAsset(), pool.provider);
+  const rewardAsset = ERC20__factory.connect(await pool.rewardAsset(), pool.provider);
+
+  return {
+    name,
+    address: pool.address,
+    blockNumber,
+    timestamp: (await pool.provider.getBlock(blockNumber)).timestamp,
+    source,
+    stakingDecimals: await stakingAsset.decimals(),
+    rewardDecimals: await rewardAsset.decimals(),
+    totalPrincipal,
+    totals,
+    reconciled:
+      stakers.every((staker) => staker.principal.eq(staker.stakedBalance)) &&
+      totals.principal.eq(totalPrincipal),
+    stakers: stakers.filter(
+      (staker) => !staker.principal.isZero() || !staker.accruedReward.isZero()
+    ),
+  };
+};
+
+// Reads every staker at the block, which needs a node that serves historical state
+export const snapshotFromChain = async (
+  name: string,
+  pool: StakingPoolV2,
+  deploymentBlock: number,
+  blockNumber: number
+): Promise<PoolSnapshot> => {
+  const blockTag = blockNumber;
+  const stakers: StakerSnapshot[] = [];
+  for (const user of await getStakers(pool, deploymentBlock, blockNumber)) {
+    stakers.push({
+      user,
+      principal: (await pool.getUserData(user, { blockTag })).userPrincipal,
+      accruedReward: await pool.getUserReward(user, { blockTag }),
+      stakedBalance: await pool.balanceOf(user, { blockTag }),
+      votes: await pool.getPastVotes(user, blockNumber),
+    });
+  }
+  const { totalPrincipal } = await pool.getPoolData({ blockTag });
+
+  return createPoolSnapshot(name, pool, blockNumber, 'archive', totalPrincipal, stakers);
+};
+
+// Replays the indexed events up to the block for the principals and rewards, which are checked
+// against the staked balances and totalPrincipal on chain at the block
+export const snapshotFromIndex = async (
+  pool: StakingPoolV2,
+  index: PoolIndex,
+  blockNumber: number
+): Promise<PoolSnapshot> => {
+  if (index.checkpoint === undefined || index.checkpoint < blockNumber) {
+    throw new Error(
+      `${index.pool} is indexed up to block ${index.checkpoint}, behind ${blockNumber}`
+    );
+  }
+  const blockTag = blockNumber;
+  const { timestamp } = await pool.provider.getBlock(blockNumber);
+  const replay = replayPoolEvents(index.events.filter((event) => event.blockNumber <= blockNumber));
+
+  const stakers: StakerSnapshot[] = [];
+  for (const user of replay.getUsers()) {
+    stakers.push({
+      user,
+      principal: replay.getUserData(user).userPrincipal,
+      accruedReward: replay.getUserReward(user, timestamp),
+      stakedBalance: await pool.balanceOf(user, { blockTag }),
+      votes: await pool.getPastVotes(user, blockNumber),
+    });
+  }
+  const { totalPrincipal } = await pool.getPoolData({ blockTag });
+
+  return createPoolSnapshot(index.pool, pool, blockNumber, 'index', totalPrincipal, stakers);
+};
+
+export const snapshotToCsv = (snapshot: PoolSnapshot): string => {
+  const staking = (amount: BigNumber) => utils.formatUnits(amount, snapshot.stakingDecimals);
+  const reward = (amount: BigNumber) => utils.formatUnits(amount, snapshot.rewardDecimals);
+  const row = (user: string, data: Omit<StakerSnapshot, 'user'>) =>
+    [
+      user,
+      staking(data.principal),
+      reward(data.accruedReward),
+      staking(data.stakedBalance),
+      staking(data.votes),
+    ].join(',');
+
+  return [
+    'address,principal,accruedReward,stakedBalance,votes',
+    ...snapshot.stakers.map((staker) => row(staker.user, staker)),
+    row('total', snapshot.totals),
+  ].join('\n');
+};
+
+export const snapshotToJson = (snapshot: PoolSnapshot) =>
+  JSON.stringify(
+    snapshot,
+    (key, value) =>
+      value !== null && value.type === 'BigNumber' ? BigNumber.from(value).toString() : value,
+    2
+  );
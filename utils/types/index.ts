@@ -0,0 +1,2 @@
+export type { UserData } from './UserData';
+export type { PoolData } from './PoolData';